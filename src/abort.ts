@@ -0,0 +1,10 @@
+// True for the error fetch (and our own checks) throw once an AbortSignal fires
+export function isAbortError(e: unknown): boolean {
+	return e instanceof Error && e.name === "AbortError";
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new DOMException("The operation was aborted.", "AbortError");
+	}
+}
@@ -1,17 +1,55 @@
-import type { AIProvider } from "./constants";
-import type { SearchResult } from "./vectorStore";
+import type { RelatedNote } from "./vectorStore";
 import type { ImagePayload } from "./ocr";
 import type { DeepNotesSettings } from "./settings";
-import { getEmbedding } from "./embeddings";
+import { cosineSimilarity, getEmbedding } from "./embeddings";
+import { ChatRequest, describeError, getChatProvider, LLMProvider, ProviderError } from "./providers";
+import { JsonArrayStreamParser } from "./streamParser";
+import { DEEP_NOTES_RESPONSE_SCHEMA, ItemValidation, validateDeepNotesItem, validateDeepNotesResponse } from "./itemSchema";
+import { estimateTokens, getInputBudget, MIN_NOTE_BUDGET, selectRelevantText, splitIntoSections } from "./tokenBudget";
+import { getActivePrompt, getPromptLanguage, PromptTemplate, PROMPT_ITEM_COUNT, renderPrompt } from "./prompts";
+import { describeFormats, gradeClosedItem, QuestionFormat } from "./questionFormats";
+import {
+	calibratedSimilarityScore,
+	combineGrades,
+	conceptCoverage,
+	coveragePercent,
+	formatAnswersForJudge,
+	GradingMode,
+	GRADING_RESPONSE_SCHEMA,
+	JudgeEntry,
+	JudgeGrade,
+	ratingForScore,
+	ratingForSimilarity,
+	validateGrades,
+} from "./grading";
+import { describeMix, fitToMix, missingFromMix, QuestionMix, scaleMix, totalCount, withoutCrossTopic } from "./questionMix";
+import { isAbortError, throwIfAborted } from "./abort";
+import { getSimilarityThresholds } from "./calibration";
 
 export interface DeepNotesItem {
 	type: "knowledge-expansion" | "suggestion" | "cross-topic";
+	// How the item is answered; missing means "open"
+	format?: QuestionFormat;
 	text: string;
 	sourceExcerpt?: string;
 	sourceNote?: string;
 	sampleAnswer?: string;
 	sampleAnswerEmbedding?: number[];
+	// Rubric points a complete answer must cover (open questions)
+	keyConcepts?: string[];
+	// Multiple choice: options and the index of the correct one
+	choices?: string[];
+	correctChoice?: number;
+	// Cloze: the term blanked out of sourceExcerpt
+	clozeAnswer?: string;
+	// True/false: whether the statement in `text` holds
+	isTrue?: boolean;
+	// Ordering: steps in the correct order
+	steps?: string[];
 	subItems?: DeepNotesItem[];
+	// Written in the view or loaded from a question bank; missing means generated
+	origin?: "manual" | "imported";
+	// Closed formats store the chosen option, "true"/"false", or the steps one per line
 	userResponse?: string;
 }
 
@@ -20,6 +58,19 @@ export interface EvaluationFeedback {
 	rating: "correct" | "partial" | "incorrect";
 	explanation: string;
 	suggestedAnswer?: string;
+	// Missing on sessions saved before per-answer scores were stored
+	score?: number;
+	missingConcepts?: string[];
+	gradedBy?: GradingMode | "exact";
+	// Which of the item's key concepts the answer covered
+	concepts?: ConceptCoverage[];
+	// Nothing could grade the answer (no sample answer and no judge grade); left out of scores and scheduling
+	ungraded?: boolean;
+}
+
+export interface ConceptCoverage {
+	concept: string;
+	covered: boolean;
 }
 
 export interface EvaluationResult {
@@ -28,55 +79,122 @@ export interface EvaluationResult {
 	summary: string;
 }
 
+export interface GenerationOptions {
+	// Called with each item as soon as it has fully streamed in
+	onItem?: (item: DeepNotesItem) => void;
+	// Called with a status line when a long note is generated section by section
+	onProgress?: (message: string) => void;
+	// Extra template variables, e.g. {{annotations}} for image scans
+	variables?: Record<string, string>;
+	// Overrides settings.questionMix for this run (generation prompts only)
+	mix?: QuestionMix;
+	signal?: AbortSignal;
+}
+
 // Generates Deep Notes questions using the selected AI provider
 export async function generateDeepNotesQuestions(
 	noteContent: string,
 	settings: DeepNotesSettings,
-	systemPrompt: string,
-	relatedContext?: SearchResult[],
-	images?: ImagePayload[]
+	prompt: PromptTemplate,
+	relatedContext?: RelatedNote[],
+	images?: ImagePayload[],
+	options: GenerationOptions = {}
 ): Promise<DeepNotesItem[]> {
-	let userMessage = noteContent;
-
-	// Add related context to the user message if available
-	if (relatedContext && relatedContext.length > 0) {
-		const contextBlock = relatedContext
-			.map((r) => `- From "${r.noteTitle}" (${r.heading}): ${r.text}`)
-			.join("\n");
-		userMessage = `## Current Note\n${noteContent}\n\n## Related Concepts from Other Notes\n${contextBlock}`;
+	const imgs = images && images.length > 0 ? images : undefined;
+	const provider = getChatProvider(settings);
+
+	// Generation follows the question mix; the other prompts ask for a fixed count
+	const variablesFor = (mix?: QuestionMix): Record<string, string | number> => ({
+		count: mix ? totalCount(mix) : PROMPT_ITEM_COUNT[prompt.kind],
+		mix: mix ? describeMix(mix) : "",
+		formats: describeFormats(settings.questionFormats),
+		language: getPromptLanguage(settings),
+		...options.variables,
+	});
+	let mix = prompt.kind === "generation" ? options.mix ?? settings.questionMix : undefined;
+
+	const variables = variablesFor(mix);
+	const budget = getInputBudget(settings, renderPrompt(prompt.system, variables))
+		- estimateTokens(renderPrompt(prompt.user, { ...variables, note: "", related: "" }));
+
+	// Related context may take at most a quarter of the budget
+	const related = fitRelatedContext(relatedContext ?? [], Math.floor(budget / 4));
+	const relatedBlock = related.length > 0 ? `## Related Concepts from Other Notes\n${formatRelatedContext(related)}` : "";
+	const noteBudget = Math.max(budget - estimateTokens(relatedBlock), MIN_NOTE_BUDGET);
+	if (mix && related.length === 0) {
+		mix = withoutCrossTopic(mix);
 	}
 
-	const imgs = images && images.length > 0 ? images : undefined;
-	let content: string;
-	       const provider = settings.provider;
-	       const model = settings.model;
-	       const ollamaBaseUrl = settings.ollamaBaseUrl;
-	       let apiKey = "";
-	       if (provider === "gemini") {
-		       apiKey = settings.geminiApiKey;
-	       }
-
-	       // Call the appropriate AI provider
-	       switch (provider) {
-		       case "gemini":
-			       content = await callGemini(userMessage, apiKey, model, systemPrompt, imgs);
-			       break;
-		       case "ollama":
-			       content = await callOllama(userMessage, model, systemPrompt, ollamaBaseUrl, imgs);
-			       break;
-	       }
-
-	const items = parseResponse(content);
+	const buildRequest = (noteText: string, requestMix = mix): ChatRequest => {
+		const vars = variablesFor(requestMix);
+		return {
+			model: settings.model,
+			systemPrompt: renderPrompt(prompt.system, vars),
+			userMessage: renderPrompt(prompt.user, { ...vars, note: noteText, related: relatedBlock }).trim(),
+			images: imgs,
+			responseSchema: provider.capabilities.jsonMode ? DEEP_NOTES_RESPONSE_SCHEMA : undefined,
+			signal: options.signal,
+		};
+	};
+
+	const fits = estimateTokens(noteContent) <= noteBudget;
+	let items: DeepNotesItem[];
+	if (fits) {
+		items = await requestItems(provider, buildRequest(noteContent), settings, options.onItem);
+	} else if (imgs) {
+		// Image scans are about the images; the note is background, so trim it instead of splitting
+		items = await requestItems(provider, buildRequest(selectRelevantText(noteContent, noteBudget, "")), settings, options.onItem);
+	} else {
+		const sections = splitIntoSections(noteContent, noteBudget);
+		const sectionMix = mix && scaleMix(mix, sections.length);
+		const perSection: DeepNotesItem[][] = [];
+
+		for (let i = 0; i < sections.length; i++) {
+			throwIfAborted(options.signal);
+			options.onProgress?.(`Generating questions for section ${i + 1} of ${sections.length} ("${sections[i].heading}")...`);
+
+			const sectionText = `(Part ${i + 1} of ${sections.length} of a longer note)\n\n${sections[i].text}`;
+			perSection.push(await requestItems(provider, buildRequest(sectionText, sectionMix), settings));
+		}
+
+		// Interleave so every section is represented before any section contributes a second item
+		items = dedupeQuestions(interleave(perSection));
+		if (!mix) {
+			items = items.slice(0, PROMPT_ITEM_COUNT[prompt.kind]);
+		}
+	}
+
+	// Hold the model to the requested mix: drop extras, then ask once for whatever is missing
+	if (mix) {
+		items = fitToMix(items, mix);
+		const missing = missingFromMix(items, mix);
+		if (totalCount(missing) > 0) {
+			throwIfAborted(options.signal);
+			options.onProgress?.("Generating the remaining questions...");
+
+			const request = buildRequest(fits ? noteContent : selectRelevantText(noteContent, noteBudget, ""), missing);
+			request.userMessage += `\n\nThese items were already generated; do not repeat them:\n${items.map((item) => `- ${item.text}`).join("\n")}`;
+			const extra = await requestItems(provider, request, settings);
+			const fresh = extra.filter((item) => !items.some((kept) => isDuplicateQuestion(kept, item)));
+			items.push(...fitToMix(fresh, missing));
+
+			if (totalCount(missingFromMix(items, mix)) > 0) {
+				console.warn("Deep Notes: Model returned fewer items than requested", missingFromMix(items, mix));
+			}
+		}
+	}
 
 	// Generate embeddings for sample answers
 	for (const item of items) {
+		throwIfAborted(options.signal);
 		if (item.sampleAnswer) {
 			try {
-				const embedding = await getEmbedding(item.sampleAnswer, settings);
+				const embedding = await getEmbedding(item.sampleAnswer, settings, options.signal);
 				if (embedding) {
 					item.sampleAnswerEmbedding = embedding;
 				}
 			} catch (e) {
+				if (isAbortError(e)) throw e;
 				console.warn("Deep Notes: Failed to generate embedding for sample answer", e);
 			}
 		}
@@ -85,499 +203,293 @@ export async function generateDeepNotesQuestions(
 	return items;
 }
 
-// Calls Ollama's local LLM API to generate content
-async function callOllama(
-	noteContent: string,
-	model: string,
-	systemPrompt: string,
-	baseUrl = "http://127.0.0.1:11434",
-	images?: ImagePayload[]
-): Promise<string> {
-	const normalizedBase = baseUrl.replace(/\/$/, "");
-	const doChat = async (targetModel: string) => {
-		const userMsg: Record<string, unknown> = { role: "user", content: noteContent };
-		if (images && images.length > 0) {
-			userMsg.images = images.map((img) => img.base64);
-		}
-		return fetch(`${normalizedBase}/api/chat`, {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-			},
-			body: JSON.stringify({
-				model: targetModel,
-				stream: false,
-				messages: [
-					{ role: "system", content: systemPrompt },
-					userMsg,
-				],
-			}),
-		});
-	};
-
-	let response = await doChat(model);
-	if (!response.ok) {
-		const err = await response.text();
-		if (response.status === 404 && /not found/i.test(err)) {
-			const fallbackModel = await findOllamaFallbackModel(model, normalizedBase);
-			if (fallbackModel) {
-				response = await doChat(fallbackModel);
-				if (response.ok) {
-					const data = await response.json();
-					return data.message?.content ?? "";
-				}
+// One chat round-trip, streamed through onItem when possible, validated and repaired if needed
+async function requestItems(
+	provider: LLMProvider,
+	request: ChatRequest,
+	settings: DeepNotesSettings,
+	onItem?: (item: DeepNotesItem) => void
+): Promise<DeepNotesItem[]> {
+	if (onItem && settings.streamResponses && provider.capabilities.streaming && provider.streamChat) {
+		// Hand items to the caller as they close; keep the same objects so edits made
+		// to streamed cards (e.g. typed responses) survive into the final result
+		const streamed: DeepNotesItem[] = [];
+		const parser = new JsonArrayStreamParser((value) => {
+			const { item } = validateDeepNotesItem(value);
+			if (item) {
+				streamed.push(item);
+				onItem(item);
 			}
-
-			throw new Error(
-				`Ollama model "${model}" was not found locally. Try model "${model.split(":")[0]}:latest" or run: ollama pull ${model}`
-			);
-		}
-
-		throw new Error(`Ollama API error (${response.status}): ${err}`);
+		});
+		const content = await provider.streamChat(request, (text) => parser.push(text));
+		const validation = parseItems(content);
+		return validation.errors.length === 0 && streamed.length === validation.items.length
+			? streamed
+			: repairItems(provider, request, content, validation);
 	}
 
-	const data = await response.json();
-	return data.message?.content ?? "";
+	const content = await provider.chat(request);
+	const validation = parseItems(content);
+	return validation.errors.length === 0 ? validation.items : repairItems(provider, request, content, validation);
 }
 
-async function findOllamaFallbackModel(model: string, normalizedBase: string): Promise<string | null> {
-	try {
-		const tagsResponse = await fetch(`${normalizedBase}/api/tags`);
-		if (!tagsResponse.ok) {
-			return null;
-		}
-
-		const tagsData = await tagsResponse.json();
-		const modelNames: string[] = Array.isArray(tagsData.models)
-			? tagsData.models.map((m: { name?: string }) => m.name ?? "").filter(Boolean)
-			: [];
-
-		if (modelNames.length === 0) {
-			return null;
-		}
-
-		const base = model.split(":")[0];
-		const latest = `${base}:latest`;
-		if (modelNames.includes(latest)) {
-			return latest;
-		}
-
-		const firstMatchingTag = modelNames.find((name) => name.startsWith(`${base}:`));
-		return firstMatchingTag ?? null;
-	} catch {
-		return null;
-	}
+function formatRelatedContext(related: RelatedNote[]): string {
+	return related
+		.map((note) => [`From "${note.noteTitle}":`, ...note.chunks.map((c) => `- (${c.heading}) ${c.text}`)].join("\n"))
+		.join("\n\n");
 }
 
-function parseResponse(content: string): DeepNotesItem[] {
-	const normalized = stripCodeFences(content).trim();
-	const candidates = extractJsonCandidates(content, normalized);
-
-	for (const candidate of candidates) {
-		try {
-			const cleaned = cleanJsonCandidate(candidate);
-			const parsed = JSON.parse(cleaned);
-			const items = parseDeepNotesItems(parsed);
-			if (items.length > 0) {
-				return items;
+// Keeps the related chunks that fit the budget: every note's best chunk first, then the second ones, and so on
+function fitRelatedContext(related: RelatedNote[], budgetTokens: number): RelatedNote[] {
+	const kept = related.map((note) => ({ ...note, chunks: [] as RelatedNote["chunks"] }));
+	let used = 0;
+	const longest = Math.max(0, ...related.map((note) => note.chunks.length));
+	for (let i = 0; i < longest; i++) {
+		for (let n = 0; n < related.length; n++) {
+			const chunk = related[n].chunks[i];
+			if (!chunk) continue;
+			// Costed with the note's title line, which overestimates all but the first chunk a little
+			const tokens = estimateTokens(formatRelatedContext([{ ...related[n], chunks: [chunk] }]));
+			if (used + tokens > budgetTokens) {
+				return kept.filter((note) => note.chunks.length > 0);
 			}
-		} catch (e) {
-			console.warn("Deep Notes: JSON parse failed", e);
+			kept[n].chunks.push(chunk);
+			used += tokens;
 		}
 	}
-
-	const textFieldItems = extractTextFieldsFromJsonLikeText(normalized);
-	if (textFieldItems.length > 0) {
-		return textFieldItems;
-	}
-
-	const listItems = parseListItemsFromText(normalized);
-	if (listItems.length > 0) {
-		return listItems.map((text) => ({ type: "knowledge-expansion", text }));
-	}
-
-	if (!normalized) {
-		return [];
-	}
-
-	return [{ type: "suggestion", text: toHumanReadableText(normalized) }];
-}
-
-function stripCodeFences(content: string): string {
-	return content.replace(/```(?:json)?/gi, "").replace(/```/g, "");
+	return kept.filter((note) => note.chunks.length > 0);
 }
 
-function cleanJsonCandidate(candidate: string): string {
-	return candidate
-		.replace(/,\s*([\]}])/g, "$1")
-		.replace(/[\x00-\x1F\x7F]/g, (c) => (["\r", "\n", "\t"].includes(c) ? c : ""));
-}
-
-function extractJsonCandidates(raw: string, normalized: string): string[] {
-	const candidates: string[] = [];
-
-	const blockRegex = /```(?:json)?\s*([\s\S]*?)```/gi;
-	let blockMatch: RegExpExecArray | null = null;
-	while ((blockMatch = blockRegex.exec(raw)) !== null) {
-		const block = blockMatch[1]?.trim();
-		if (block && (block.startsWith("[") || block.startsWith("{"))) {
-			candidates.push(block);
+// Round-robin merge: first item of every list, then the second of every list, and so on
+function interleave(lists: DeepNotesItem[][]): DeepNotesItem[] {
+	const merged: DeepNotesItem[] = [];
+	const longest = Math.max(0, ...lists.map((list) => list.length));
+	for (let i = 0; i < longest; i++) {
+		for (const list of lists) {
+			if (i < list.length) merged.push(list[i]);
 		}
 	}
-
-	if (normalized.startsWith("[") || normalized.startsWith("{")) {
-		candidates.push(normalized);
-	}
-
-	const arrayMatch = normalized.match(/\[[\s\S]*\]/);
-	if (arrayMatch) {
-		candidates.push(arrayMatch[0]);
-	}
-
-	const objectMatch = normalized.match(/\{[\s\S]*\}/);
-	if (objectMatch) {
-		candidates.push(objectMatch[0]);
-	}
-
-	return Array.from(new Set(candidates.map((c) => c.trim()).filter(Boolean)));
+	return merged;
 }
 
-function parseDeepNotesItems(parsed: unknown): DeepNotesItem[] {
-	if (Array.isArray(parsed)) {
-		return parsed
-			.map((entry) => normalizeDeepNotesItem(entry))
-			.filter((item): item is DeepNotesItem => item !== null);
-	}
-
-	if (parsed && typeof parsed === "object") {
-		const obj = parsed as Record<string, unknown>;
-		for (const key of ["items", "questions", "suggestions", "results", "data"]) {
-			if (Array.isArray(obj[key])) {
-				return (obj[key] as unknown[])
-					.map((entry) => normalizeDeepNotesItem(entry))
-					.filter((item): item is DeepNotesItem => item !== null);
-			}
-		}
-
-		const single = normalizeDeepNotesItem(obj);
-		if (single) {
-			return [single];
+function dedupeQuestions(items: DeepNotesItem[]): DeepNotesItem[] {
+	const kept: DeepNotesItem[] = [];
+	for (const item of items) {
+		if (!kept.some((k) => isDuplicateQuestion(k, item))) {
+			kept.push(item);
 		}
 	}
-
-	return [];
+	return kept;
 }
 
-function normalizeDeepNotesItem(entry: unknown): DeepNotesItem | null {
-	if (typeof entry === "string") {
-		const text = toHumanReadableText(entry);
-		return text ? { type: "knowledge-expansion", text } : null;
-	}
-
-	if (!entry || typeof entry !== "object") {
-		return null;
-	}
-
-	const item = entry as Record<string, unknown>;
-	const rawText = item.text ?? item.question ?? item.prompt ?? item.suggestion ?? item.content;
-	if (typeof rawText !== "string") {
-		return null;
-	}
+// Word-overlap (Jaccard) check; sections of one note often yield the same question twice
+function isDuplicateQuestion(a: DeepNotesItem, b: DeepNotesItem): boolean {
+	const wordsA = new Set(a.text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+	const wordsB = new Set(b.text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+	if (wordsA.size === 0 || wordsB.size === 0) return false;
 
-	const text = toHumanReadableText(rawText);
-	if (!text) {
-		return null;
+	let shared = 0;
+	for (const w of wordsA) {
+		if (wordsB.has(w)) shared++;
 	}
-
-	const sampleAnswer =
-		typeof item.sample_answer === "string"
-			? toHumanReadableText(item.sample_answer)
-			: typeof item.answer === "string"
-				? toHumanReadableText(item.answer)
-				: undefined;
-
-	const rawType = String(item.type ?? item.kind ?? item.category ?? "").toLowerCase();
-	const type: DeepNotesItem["type"] =
-		rawType === "knowledge-expansion" || rawType === "question"
-			? "knowledge-expansion"
-			: rawType === "cross-topic"
-				? "cross-topic"
-				: "suggestion";
-
-	const sourceExcerpt =
-		typeof item.sourceExcerpt === "string"
-			? item.sourceExcerpt
-			: typeof item.source_excerpt === "string"
-				? item.source_excerpt
-				: typeof item.excerpt === "string"
-					? item.excerpt
-					: typeof item.quote === "string"
-						? item.quote
-						: undefined;
-
-	const sourceNote =
-		typeof item.sourceNote === "string"
-			? item.sourceNote
-			: typeof item.note === "string"
-				? item.note
-				: typeof item.relatedNote === "string"
-					? item.relatedNote
-					: undefined;
-
-	return { type, text, sourceExcerpt, sourceNote, sampleAnswer };
+	return shared / (wordsA.size + wordsB.size - shared) >= 0.8;
 }
 
-function extractTextFieldsFromJsonLikeText(content: string): DeepNotesItem[] {
-	const matches = Array.from(content.matchAll(/"text"\s*:\s*"([\s\S]*?)"/g));
-	if (matches.length === 0) {
-		return [];
+function parseItems(content: string): ItemValidation {
+	const json = extractJson(content);
+	if (!json) {
+		return { items: [], errors: ["The reply was empty."] };
 	}
 
-	const items = matches
-		.map((m) => decodeJsonString(m[1]))
-		.map((text) => toHumanReadableText(text))
-		.filter((text) => text.length > 0)
-		.map((text) => ({ type: "knowledge-expansion", text } as DeepNotesItem));
-
-	return items;
-}
-
-function decodeJsonString(value: string): string {
 	try {
-		return JSON.parse(`"${value.replace(/"/g, '\\"')}"`);
-	} catch {
-		return value;
+		return validateDeepNotesResponse(JSON.parse(json));
+	} catch (e) {
+		return { items: [], errors: [`The reply is not valid JSON: ${e instanceof Error ? e.message : e}`] };
 	}
 }
 
-function parseListItemsFromText(content: string): string[] {
-	const lines = content
-		.split(/\r?\n/)
-		.map((line) => line.trim())
-		.filter((line) => line.length > 0);
-
-	const parsed = lines
-		.map((line) => {
-			const bullet = line.match(/^(?:[-*•]|\d+[.)])\s+(.+)$/);
-			if (bullet) {
-				return bullet[1];
-			}
-
-			const label = line.match(/^(?:q(?:uestion)?\s*\d*[:.-]|suggestion\s*\d*[:.-])\s*(.+)$/i);
-			return label ? label[1] : "";
-		})
-		.map((line) => toHumanReadableText(line))
-		.filter((line) => line.length > 0);
-
-	return parsed.length >= 2 ? parsed : [];
+// Drops code fences and any prose around the outermost JSON value
+function extractJson(content: string): string {
+	const text = content.replace(/```(?:json)?/gi, "").trim();
+	const start = text.search(/[[{]/);
+	const end = Math.max(text.lastIndexOf("]"), text.lastIndexOf("}"));
+	return start >= 0 && end > start ? text.slice(start, end + 1) : text;
 }
 
-function toHumanReadableText(value: string): string {
-	return value
-		.replace(/\\n/g, " ")
-		.replace(/\\t/g, " ")
-		.replace(/\\r/g, " ")
-		.replace(/\\"/g, '"')
-		.replace(/^[\s"'`]+|[\s"'`]+$/g, "")
-		.replace(/^(?:[-*•]|\d+[.)])\s+/, "")
-		.replace(/\*\*/g, "")
-		.replace(/`/g, "")
-		.replace(/\s+/g, " ")
-		.trim();
-}
-
-async function callOpenAI(
-	noteContent: string,
-	apiKey: string,
-	model: string,
-	systemPrompt: string,
-	images?: ImagePayload[]
-): Promise<string> {
-	// Build user content: text + optional images
-	let userContent: unknown;
-	if (images && images.length > 0) {
-		const parts: unknown[] = images.map((img) => ({
-			type: "image_url",
-			image_url: { url: `data:${img.mimeType};base64,${img.base64}` },
-		}));
-		parts.push({ type: "text", text: noteContent });
-		userContent = parts;
-	} else {
-		userContent = noteContent;
-	}
-
-	const response = await fetch("https://api.openai.com/v1/chat/completions", {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			Authorization: `Bearer ${apiKey}`,
-		},
-		body: JSON.stringify({
-			model,
-			messages: [
-				{ role: "system", content: systemPrompt },
-				{ role: "user", content: userContent },
-			],
-			temperature: 0.7,
-		}),
-	});
+// Sends the invalid reply back once with the validation errors; keeps whatever passes afterwards
+async function repairItems(
+	provider: LLMProvider,
+	request: ChatRequest,
+	content: string,
+	validation: ItemValidation
+): Promise<DeepNotesItem[]> {
+	console.warn("Deep Notes: Reply failed validation, requesting a repair", validation.errors);
 
-	if (!response.ok) {
-		const err = await response.text();
-		throw new Error(`OpenAI API error (${response.status}): ${err}`);
-	}
+	const repaired = parseItems(await provider.chat({
+		...request,
+		images: undefined,
+		temperature: 0,
+		userMessage: `Your previous reply did not match the required format.
 
-	const data = await response.json();
-	return data.choices?.[0]?.message?.content ?? "";
-}
-
-async function callAnthropic(
-	noteContent: string,
-	apiKey: string,
-	model: string,
-	systemPrompt: string,
-	images?: ImagePayload[]
-): Promise<string> {
-	// Build user content blocks: images first, then text
-	let contentBlocks: unknown;
-	if (images && images.length > 0) {
-		const parts: unknown[] = images.map((img) => ({
-			type: "image",
-			source: {
-				type: "base64",
-				media_type: img.mimeType,
-				data: img.base64,
-			},
-		}));
-		parts.push({ type: "text", text: noteContent });
-		contentBlocks = parts;
-	} else {
-		contentBlocks = noteContent;
-	}
-
-	const response = await fetch("https://api.anthropic.com/v1/messages", {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-			"x-api-key": apiKey,
-			"anthropic-version": "2023-06-01",
-			"anthropic-dangerous-direct-browser-access": "true",
-		},
-		body: JSON.stringify({
-			model,
-			max_tokens: 1024,
-			system: systemPrompt,
-			messages: [{ role: "user", content: contentBlocks }],
-		}),
-	});
+Problems:
+${validation.errors.map((e) => `- ${e}`).join("\n")}
 
-	if (!response.ok) {
-		const err = await response.text();
-		throw new Error(`Anthropic API error (${response.status}): ${err}`);
-	}
+Previous reply:
+${content}
 
-	const data = await response.json();
-	const block = data.content?.[0];
-	return block?.text ?? "";
-}
+Return the corrected reply as a JSON object of the form {"items": [...]}, following the original rules. Output only the JSON.`,
+	}));
 
-async function callGemini(
-	noteContent: string,
-	apiKey: string,
-	model: string,
-	systemPrompt: string,
-	images?: ImagePayload[]
-): Promise<string> {
-	const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-
-	// Build parts: images first, then text
-	const parts: unknown[] = [];
-	if (images && images.length > 0) {
-		for (const img of images) {
-			parts.push({
-				inlineData: {
-					mimeType: img.mimeType,
-					data: img.base64,
-				},
-			});
-		}
+	if (repaired.errors.length > 0) {
+		console.warn("Deep Notes: Repaired reply still has problems", repaired.errors);
 	}
-	parts.push({ text: noteContent });
-
-	const response = await fetch(url, {
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({
-			system_instruction: {
-				parts: [{ text: systemPrompt }],
-			},
-			contents: [
-				{
-					role: "user",
-					parts,
-				},
-			],
-			generationConfig: { temperature: 0.7 },
-		}),
-	});
 
-	if (!response.ok) {
-		const err = await response.text();
-		throw new Error(`Gemini API error (${response.status}): ${err}`);
+	const items = repaired.items.length > 0 ? repaired.items : validation.items;
+	if (items.length === 0) {
+		throw new ProviderError(
+			`${provider.label} returned no valid items: ${repaired.errors.join(" ")}`,
+			"malformed",
+			provider.label
+		);
 	}
-
-	const data = await response.json();
-	return data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+	return items;
 }
 
-
-
 export async function evaluateResponses(
 	noteContent: string,
 	items: DeepNotesItem[],
 	userResponses: string[],
 	settings: DeepNotesSettings,
 	model: string, // Kept for signature compatibility, though unused
-	ollamaBaseUrl?: string // Kept for signature compatibility
+	ollamaBaseUrl?: string, // Kept for signature compatibility
+	signal?: AbortSignal
 ): Promise<EvaluationResult> {
 	const feedback: EvaluationFeedback[] = [];
 	let totalScore = 0;
 	let validResponsesCount = 0;
+	let ungradedCount = 0;
+	const mode = settings.gradingMode ?? "similarity";
+	const thresholds = getSimilarityThresholds(settings);
+
+	// Open answers go to the judge in one request; closed formats never need it.
+	// Without a sample answer there is nothing to compare with, so those go to the judge in every mode.
+	const judgeIndexes = items
+		.map((item, i) => i)
+		.filter((i) => (mode !== "similarity" || !items[i].sampleAnswer)
+			&& (userResponses[i] || "").trim().length > 3 && !gradeClosedItem(items[i], userResponses[i]));
+	const judged = new Map<number, JudgeGrade>();
+	let judgeError = "";
+	if (judgeIndexes.length > 0) {
+		try {
+			const grades = await judgeResponses(
+				noteContent,
+				judgeIndexes.map((i) => ({ item: items[i], response: userResponses[i] })),
+				settings,
+				signal
+			);
+			grades.forEach((grade, position) => judged.set(judgeIndexes[position], grade));
+		} catch (e) {
+			if (isAbortError(e)) throw e;
+			console.warn("Deep Notes: AI grading failed", e);
+			judgeError = describeError(e);
+		}
+	}
 
 	for (let i = 0; i < items.length; i++) {
 		const item = items[i];
 		const response = userResponses[i] || "";
 		let similarityScore = 0;
+		// Set once both embeddings are available; hybrid grading leaves similarity out without it
+		let hasSimilarity = false;
 		let rating: "correct" | "partial" | "incorrect" = "incorrect";
 		let explanation = "No response provided.";
 
-		// Calculate similarity if we have both embeddings
-		if (item.sampleAnswerEmbedding && response.trim().length > 3) {
+		// Closed formats have one right answer and are graded without embeddings
+		const closedGrade = response.trim() ? gradeClosedItem(item, response) : null;
+		if (closedGrade) {
+			totalScore += closedGrade.score;
+			validResponsesCount++;
+			feedback.push({
+				question: item.text,
+				rating: closedGrade.rating,
+				explanation: closedGrade.explanation,
+				suggestedAnswer: closedGrade.suggestedAnswer,
+				score: closedGrade.score,
+				gradedBy: "exact",
+			});
+			continue;
+		}
+
+		const judgeGrade = judged.get(i);
+		const concepts = item.keyConcepts && response.trim().length > 3 ? conceptCoverage(item, response, judgeGrade) : undefined;
+
+		// Calculate similarity if we have both embeddings; the judge alone does not need it
+		throwIfAborted(signal);
+		if (item.sampleAnswer && response.trim().length > 3 && !(judgeGrade && mode === "judge")) {
 			try {
-				const userEmbedding = await getEmbedding(response, settings);
-				if (userEmbedding && userEmbedding.length > 0) {
+				// History and review cards are stored without embeddings
+				if (!item.sampleAnswerEmbedding) {
+					item.sampleAnswerEmbedding = await getEmbedding(item.sampleAnswer, settings, signal);
+				}
+				const userEmbedding = await getEmbedding(response, settings, signal);
+				if (item.sampleAnswerEmbedding && item.sampleAnswerEmbedding.length > 0 && userEmbedding && userEmbedding.length > 0) {
 					similarityScore = cosineSimilarity(item.sampleAnswerEmbedding, userEmbedding);
+					hasSimilarity = true;
 				}
 			} catch (e) {
+				if (isAbortError(e)) throw e;
 				console.warn("Deep Notes: Failed to generate embedding for user response", e);
 			}
 		}
 
+		if (judgeGrade) {
+			const blended = mode === "hybrid" && hasSimilarity;
+			const grade = blended ? combineGrades(judgeGrade, Math.round(similarityScore * 100)) : judgeGrade;
+			totalScore += grade.score;
+			validResponsesCount++;
+			feedback.push({
+				question: item.text,
+				rating: grade.rating,
+				explanation: grade.explanation,
+				suggestedAnswer: item.sampleAnswer,
+				score: grade.score,
+				missingConcepts: grade.missingConcepts,
+				gradedBy: blended ? "hybrid" : "judge",
+				concepts,
+			});
+			continue;
+		}
+
+		if (!item.sampleAnswer && response.trim().length > 3) {
+			ungradedCount++;
+			feedback.push({
+				question: item.text,
+				rating: "partial",
+				explanation: "Not scored: the question has no sample answer to compare with and AI grading was unavailable.",
+				ungraded: true,
+				concepts,
+			});
+			continue;
+		}
+
 		// Grading Logic (Pure Vector Similarity)
+		let score: number | undefined;
 		if (response.trim().length > 3) {
 			const similarityPercent = Math.round(similarityScore * 100);
-			totalScore += similarityPercent;
+			explanation = `Similarity: ${similarityPercent}%`;
 
-			// We keep the rating string for UI color coding, but the score is now the raw percentage
-			if (similarityScore >= 0.85) {
-				rating = "correct";
-			} else if (similarityScore >= 0.70) {
-				rating = "partial";
+			if (concepts) {
+				// Rubric partial credit: half calibrated similarity, half key-concept coverage
+				const covered = coveragePercent(concepts);
+				score = Math.round((calibratedSimilarityScore(similarityScore, thresholds) + covered) / 2);
+				rating = ratingForScore(score);
+				explanation += `, key points: ${concepts.filter((c) => c.covered).length}/${concepts.length}`;
 			} else {
-				rating = "incorrect";
+				score = similarityPercent;
+				// We keep the rating string for UI color coding, but the score is now the raw percentage
+				rating = ratingForSimilarity(similarityScore, thresholds);
 			}
-
-			explanation = `Similarity: ${similarityPercent}%`;
+			totalScore += score;
 			validResponsesCount++;
 		} else {
 			explanation = "No response provided.";
@@ -587,11 +499,14 @@ export async function evaluateResponses(
 			question: item.text,
 			rating,
 			explanation,
-			suggestedAnswer: item.sampleAnswer // Include the sample answer for reference
+			suggestedAnswer: item.sampleAnswer, // Include the sample answer for reference
+			score,
+			gradedBy: "similarity",
+			concepts,
 		});
 	}
 
-	const finalScore = validResponsesCount > 0 ? Math.round(totalScore / items.length) : 0;
+	const finalScore = validResponsesCount > 0 ? Math.round(totalScore / (items.length - ungradedCount)) : 0;
 
 	let summary = "";
 	if (finalScore >= 90) summary = "Outstanding! You have a deep understanding of this material.";
@@ -599,6 +514,12 @@ export async function evaluateResponses(
 	else if (finalScore >= 50) summary = "Good start. Review the partial matches to deepen your understanding.";
 	else summary = "Keep practicing. Focus on the core concepts and try again.";
 
+	if (judgeError) {
+		summary += ungradedCount > 0
+			? ` (AI grading failed: ${judgeError} Answers to questions without a sample answer were not scored.)`
+			: ` (AI grading failed: ${judgeError} Open answers were scored by similarity.)`;
+	}
+
 	return {
 		score: finalScore,
 		feedback,
@@ -606,17 +527,45 @@ export async function evaluateResponses(
 	};
 }
 
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-	if (vecA.length !== vecB.length) return 0;
-	let dot = 0;
-	let magA = 0;
-	let magB = 0;
-	for (let i = 0; i < vecA.length; i++) {
-		dot += vecA[i] * vecB[i];
-		magA += vecA[i] * vecA[i];
-		magB += vecB[i] * vecB[i];
+// Grades open answers with the chat model in one request; grades are keyed by position in `entries`
+async function judgeResponses(
+	noteContent: string,
+	entries: JudgeEntry[],
+	settings: DeepNotesSettings,
+	signal?: AbortSignal
+): Promise<Map<number, JudgeGrade>> {
+	const prompt = getActivePrompt(settings, "grading");
+	const variables = {
+		language: getPromptLanguage(settings),
+		answers: formatAnswersForJudge(entries),
+	};
+	const systemPrompt = renderPrompt(prompt.system, variables);
+
+	// The excerpts carry most of the evidence; the note fills in whatever budget is left
+	const focus = entries.map((e) => e.item.text).join("\n");
+	const noteBudget = getInputBudget(settings, systemPrompt) - estimateTokens(renderPrompt(prompt.user, { ...variables, note: "" }));
+	const noteContext = selectRelevantText(noteContent, Math.max(noteBudget, MIN_NOTE_BUDGET), focus);
+
+	const provider = getChatProvider(settings);
+	const content = await provider.chat({
+		model: settings.model,
+		systemPrompt,
+		userMessage: renderPrompt(prompt.user, { ...variables, note: noteContext }),
+		temperature: 0,
+		responseSchema: provider.capabilities.jsonMode ? GRADING_RESPONSE_SCHEMA : undefined,
+		signal,
+	});
+
+	let grades: Map<number, JudgeGrade>;
+	try {
+		grades = validateGrades(JSON.parse(extractJson(content)), entries.length);
+	} catch (e) {
+		throw new ProviderError(`${provider.label} returned grades that are not valid JSON.`, "malformed", provider.label);
+	}
+	if (grades.size === 0) {
+		throw new ProviderError(`${provider.label} returned no usable grades.`, "malformed", provider.label);
 	}
-	return magA === 0 || magB === 0 ? 0 : dot / (Math.sqrt(magA) * Math.sqrt(magB));
+	return grades;
 }
 
 export async function generateDeepNotesSubQuestions(
@@ -625,68 +574,53 @@ export async function generateDeepNotesSubQuestions(
 	userResponse: string,
 	noteContent: string,
 	settings: DeepNotesSettings,
-	systemPrompt: string // We can reuse the main prompt or a specific one
+	prompt: PromptTemplate,
+	signal?: AbortSignal
 ): Promise<DeepNotesItem[]> {
-	const prompt = `
-You are a Socratic tutor. The user has answered a question about their note.
-Your goal is to generate 1 follow-up question to probe deeper into their understanding, challenge a misconception, or ask for clarification.
-
-Original Question: "${originalQuestion}"
-Ideal Answer: "${originalSampleAnswer || "N/A"}"
-User's Response: "${userResponse}"
-
-Current Note Context:
-${noteContent.slice(0, 3000)}
-
-Output exactly 1 item as a JSON array of objects.
-The object MUST have:
-- "type": "knowledge-expansion"
-- "text": The content of the follow-up question.
-- "sample_answer": A concise, ideal answer to this follow-up question.
-- "source_excerpt": (Optional) If there is a specific quote in the text relevant to this new question, include it.
-
-Example:
-[
-  {
-    "type": "knowledge-expansion",
-    "text": "You mentioned X, but how does that account for Y?",
-    "sample_answer": "Y is actually a special case of X because..."
-  }
-]
-`;
-
-
-	       const provider = settings.provider;
-	       const model = settings.model;
-	       const ollamaBaseUrl = settings.ollamaBaseUrl;
-	       let apiKey = "";
-	       if (provider === "gemini") {
-		       apiKey = settings.geminiApiKey;
-	       }
-
-	       let content = "";
-	       try {
-		       if (provider === "gemini") {
-			       content = await callGemini(prompt, apiKey, model, systemPrompt);
-		       } else if (provider === "ollama") {
-			       content = await callOllama(prompt, model, systemPrompt, ollamaBaseUrl);
-		       }
-	       } catch (e) {
-		       console.error("Deep Notes: Failed to generate sub-questions", e);
-		       return [];
-	       }
-
-	const items = parseResponse(content);
+	const variables = {
+		count: PROMPT_ITEM_COUNT[prompt.kind],
+		language: getPromptLanguage(settings),
+		question: originalQuestion,
+		sample_answer: originalSampleAnswer || "N/A",
+		response: userResponse,
+	};
+	const systemPrompt = renderPrompt(prompt.system, variables);
+
+	// Leave room for the rest of the message; keep the note parts closest to the question and answers
+	const focus = `${originalQuestion}\n${originalSampleAnswer ?? ""}\n${userResponse}`;
+	const noteBudget = getInputBudget(settings, systemPrompt) - estimateTokens(renderPrompt(prompt.user, { ...variables, note: "" }));
+	const noteContext = selectRelevantText(noteContent, Math.max(noteBudget, MIN_NOTE_BUDGET), focus);
+
+	const provider = getChatProvider(settings);
+	const request: ChatRequest = {
+		model: settings.model,
+		systemPrompt,
+		userMessage: renderPrompt(prompt.user, { ...variables, note: noteContext }),
+		responseSchema: provider.capabilities.jsonMode ? DEEP_NOTES_RESPONSE_SCHEMA : undefined,
+		signal,
+	};
+
+	let items: DeepNotesItem[];
+	try {
+		const content = await provider.chat(request);
+		const validation = parseItems(content);
+		items = validation.errors.length === 0 ? validation.items : await repairItems(provider, request, content, validation);
+	} catch (e) {
+		if (isAbortError(e) || e instanceof ProviderError) throw e;
+		console.error("Deep Notes: Failed to generate sub-questions", e);
+		return [];
+	}
 
 	// Generate embedding for sample answer
 	for (const item of items) {
 		if (item.sampleAnswer) {
 			try {
-				const embedding = await getEmbedding(item.sampleAnswer, settings);
+				const embedding = await getEmbedding(item.sampleAnswer, settings, signal);
 				if (embedding) {
 					item.sampleAnswerEmbedding = embedding;
 				}
 			} catch (e) {
+				if (isAbortError(e)) throw e;
 				console.warn("Deep Notes: Failed to generate embedding for sub-question sample answer", e);
 			}
 		}
@@ -0,0 +1,184 @@
+import type { DeepNotesItem, EvaluationFeedback } from "./ai";
+import { flattenItems, QASession } from "./history";
+import { FORMAT_LABELS } from "./questionFormats";
+
+export interface ScorePoint {
+	timestamp: number;
+	score: number;
+}
+
+export interface NoteTrend {
+	notePath: string;
+	noteTitle: string;
+	points: ScorePoint[];
+	latest: number;
+	average: number;
+}
+
+export interface GroupScore {
+	label: string;
+	average: number;
+	count: number;
+}
+
+export interface AnswerRates {
+	answered: number;
+	skipped: number;
+}
+
+export interface ActivityDay {
+	// Local midnight, epoch ms
+	day: number;
+	sessions: number;
+	answers: number;
+}
+
+export interface Dashboard {
+	sessionCount: number;
+	trends: NoteTrend[];
+	weakestNotes: NoteTrend[];
+	weakestFolders: GroupScore[];
+	// Lowest average first
+	typeScores: GroupScore[];
+	formatScores: GroupScore[];
+	answers: AnswerRates;
+	activity: ActivityDay[];
+}
+
+const WEAKEST_LIMIT = 5;
+const HEATMAP_WEEKS = 26;
+
+const TYPE_LABELS: Record<DeepNotesItem["type"], string> = {
+	"knowledge-expansion": "Knowledge Expansion",
+	"cross-topic": "Cross-Topic",
+	suggestion: "Suggestion",
+};
+
+export function buildDashboard(sessions: QASession[], now = Date.now()): Dashboard {
+	const trends = noteTrends(sessions);
+	return {
+		sessionCount: sessions.length,
+		trends,
+		weakestNotes: [...trends].sort((a, b) => a.latest - b.latest).slice(0, WEAKEST_LIMIT),
+		weakestFolders: folderScores(trends).slice(0, WEAKEST_LIMIT),
+		typeScores: questionScores(sessions, (item) => TYPE_LABELS[item.type] ?? item.type),
+		formatScores: questionScores(sessions, (item) => FORMAT_LABELS[item.format ?? "open"]),
+		answers: answerRates(sessions),
+		activity: activity(sessions, now),
+	};
+}
+
+// Evaluated sessions per note, oldest first
+function noteTrends(sessions: QASession[]): NoteTrend[] {
+	const byNote = new Map<string, QASession[]>();
+	for (const session of sessions) {
+		if (!session.evaluation) continue;
+		byNote.set(session.notePath, [...(byNote.get(session.notePath) ?? []), session]);
+	}
+
+	return [...byNote.entries()].map(([notePath, noteSessions]) => {
+		const sorted = [...noteSessions].sort((a, b) => a.timestamp - b.timestamp);
+		const points = sorted.map((s) => ({ timestamp: s.timestamp, score: s.evaluation!.score }));
+		return {
+			notePath,
+			noteTitle: sorted[sorted.length - 1].noteTitle,
+			points,
+			latest: points[points.length - 1].score,
+			average: mean(points.map((p) => p.score)),
+		};
+	}).sort((a, b) => a.noteTitle.localeCompare(b.noteTitle));
+}
+
+// Folders ranked by the average latest score of their notes
+function folderScores(trends: NoteTrend[]): GroupScore[] {
+	const byFolder = new Map<string, number[]>();
+	for (const trend of trends) {
+		const slash = trend.notePath.lastIndexOf("/");
+		const folder = slash >= 0 ? trend.notePath.slice(0, slash) : "/";
+		byFolder.set(folder, [...(byFolder.get(folder) ?? []), trend.latest]);
+	}
+	return toGroups(byFolder);
+}
+
+// Per-question scores grouped by a property of the question
+function questionScores(sessions: QASession[], groupOf: (item: DeepNotesItem) => string): GroupScore[] {
+	const groups = new Map<string, number[]>();
+	for (const session of sessions) {
+		if (!session.evaluation) continue;
+		const items = flattenItems(session.items);
+		session.evaluation.feedback.forEach((fb, i) => {
+			const item = items[i];
+			if (!item || item.text !== fb.question || fb.ungraded || !isAnswered(session, item, i)) return;
+			const key = groupOf(item);
+			groups.set(key, [...(groups.get(key) ?? []), feedbackScore(fb)]);
+		});
+	}
+	return toGroups(groups);
+}
+
+function answerRates(sessions: QASession[]): AnswerRates {
+	const rates: AnswerRates = { answered: 0, skipped: 0 };
+	for (const session of sessions) {
+		flattenItems(session.items).forEach((item, i) => {
+			if (isAnswered(session, item, i)) rates.answered++;
+			else rates.skipped++;
+		});
+	}
+	return rates;
+}
+
+// One entry per day from the Sunday HEATMAP_WEEKS weeks back through today
+function activity(sessions: QASession[], now: number): ActivityDay[] {
+	const today = startOfDay(now);
+	const cursor = new Date(today);
+	cursor.setDate(cursor.getDate() - (HEATMAP_WEEKS - 1) * 7 - cursor.getDay());
+	const days = new Map<number, ActivityDay>();
+	while (cursor.getTime() <= today) {
+		days.set(cursor.getTime(), { day: cursor.getTime(), sessions: 0, answers: 0 });
+		cursor.setDate(cursor.getDate() + 1);
+	}
+
+	for (const session of sessions) {
+		const entry = days.get(startOfDay(session.timestamp));
+		if (!entry) continue;
+		entry.sessions++;
+		entry.answers += flattenItems(session.items).filter((item, i) => isAnswered(session, item, i)).length;
+	}
+	return [...days.values()];
+}
+
+// Sessions from before items stored their responses keep them in `responses`
+function isAnswered(session: QASession, item: DeepNotesItem, index: number): boolean {
+	return !!(item.userResponse ?? session.responses?.[index] ?? "").trim();
+}
+
+// Older feedback has no score; read it from the similarity explanation or fall back to the rating
+function feedbackScore(fb: EvaluationFeedback): number {
+	if (fb.score !== undefined) return fb.score;
+	const similarity = fb.explanation.match(/^Similarity: (\d+)%/);
+	if (similarity) return Number(similarity[1]);
+	return fb.rating === "correct" ? 100 : fb.rating === "partial" ? 50 : 0;
+}
+
+function toGroups(values: Map<string, number[]>): GroupScore[] {
+	return [...values.entries()]
+		.map(([label, scores]) => ({ label, average: mean(scores), count: scores.length }))
+		.sort((a, b) => a.average - b.average);
+}
+
+function mean(values: number[]): number {
+	return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
+
+// YYYY-MM-DD of the local calendar day, the same days startOfDay buckets by
+export function formatDay(time: number): string {
+	const date = new Date(time);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(time: number): number {
+	const date = new Date(time);
+	date.setHours(0, 0, 0, 0);
+	return date.getTime();
+}
@@ -0,0 +1,143 @@
+import type { DeepNotesSettings } from "./settings";
+import { cosineSimilarity, getEmbedding, getEmbeddingModelKey } from "./embeddings";
+import { throwIfAborted } from "./abort";
+
+export interface SimilarityThresholds {
+	// Minimum cosine similarity for "correct" and "partial"
+	correct: number;
+	partial: number;
+	// When the thresholds were derived; missing for the built-in defaults
+	calibratedAt?: number;
+}
+
+// Used for models that have not been calibrated
+export const DEFAULT_SIMILARITY_THRESHOLDS: SimilarityThresholds = { correct: 0.85, partial: 0.70 };
+
+interface CalibrationCase {
+	reference: string;
+	correct: string;
+	partial: string;
+	incorrect: string;
+}
+
+/**
+ * Known answer pairs: an ideal answer with a correct paraphrase, an answer missing
+ * a key part, and a wrong answer in different words. Wrong answers that reuse the
+ * reference's vocabulary score as high as partial ones on many embedding models.
+ */
+const CALIBRATION_CASES: CalibrationCase[] = [
+	{
+		reference: "Photosynthesis converts light energy into chemical energy: plants use sunlight to turn carbon dioxide and water into glucose, releasing oxygen.",
+		correct: "Plants capture sunlight and use that energy to build sugar from CO2 and water, giving off oxygen as a by-product.",
+		partial: "Plants use sunlight to make their own food.",
+		incorrect: "Plants grow mainly by pulling minerals out of the soil; daylight only keeps them warm.",
+	},
+	{
+		reference: "Supply and demand sets prices: when demand rises and supply stays the same, prices go up; when supply rises and demand stays the same, prices fall.",
+		correct: "If more people want a product but there is no more of it, it gets more expensive; if there is more of it than people want, it gets cheaper.",
+		partial: "Prices go up when lots of people want something.",
+		incorrect: "Shops simply pick whatever number they like, and customers have no effect on what anything costs.",
+	},
+	{
+		reference: "A hash table stores key-value pairs and uses a hash function to map each key to a bucket, giving average constant-time lookups; collisions are handled by chaining or probing.",
+		correct: "It hashes the key to pick a slot in an array, so finding a value usually takes O(1); when two keys land in the same slot it uses a list or looks for the next free slot.",
+		partial: "It stores keys and values and is fast to look things up in.",
+		incorrect: "It is a numbered list you scan from the start, checking every entry one by one until you find a match.",
+	},
+	{
+		reference: "The French Revolution began in 1789, driven by fiscal crisis, food shortages and Enlightenment ideas; it ended the absolute monarchy and proclaimed the rights of man.",
+		correct: "Starting in 1789, debt, hunger and new ideas about liberty led the French to overthrow absolute royal rule and declare universal rights.",
+		partial: "It started in 1789 and got rid of the king.",
+		incorrect: "It was a Spanish civil war in the 1930s between republicans and nationalists.",
+	},
+	{
+		reference: "Vaccines train the immune system by exposing it to a harmless form or part of a pathogen, so memory cells can respond quickly to a later real infection.",
+		correct: "They show the body a weakened or partial version of a germ, so it builds memory and can fight off the real one faster next time.",
+		partial: "Vaccines help protect you from diseases.",
+		incorrect: "They contain antibiotics that wipe out bacteria already present in your body.",
+	},
+	{
+		reference: "Newton's second law states that the net force on an object equals its mass times its acceleration, so a larger force produces a larger acceleration for the same mass.",
+		correct: "Acceleration is proportional to the net force and inversely proportional to mass: F = ma.",
+		partial: "It is the law about force and motion.",
+		incorrect: "Heavy things fall faster than light ones, and anything moving eventually stops unless you keep pushing it.",
+	},
+	{
+		reference: "Compound interest earns interest on both the principal and the interest already accumulated, so savings grow exponentially over time.",
+		correct: "Interest is added to the balance and then itself earns interest, which makes the total grow faster and faster.",
+		partial: "You earn interest on your savings every year.",
+		incorrect: "It is a one-time fee a bank charges when you open an account.",
+	},
+	{
+		reference: "Spaced repetition schedules reviews at increasing intervals, right before an item would be forgotten, which strengthens long-term memory with fewer reviews.",
+		correct: "You review material less and less often, each time just before you would forget it, so it sticks with less total study time.",
+		partial: "It means reviewing things more than once.",
+		incorrect: "It is cramming everything the night before an exam so it is fresh in your mind.",
+	},
+];
+
+export function getSimilarityThresholds(settings: DeepNotesSettings): SimilarityThresholds {
+	try {
+		return settings.similarityThresholds[getEmbeddingModelKey(settings)] ?? DEFAULT_SIMILARITY_THRESHOLDS;
+	} catch (e) {
+		// The embedding provider is misconfigured; grading will fail on its own
+		return DEFAULT_SIMILARITY_THRESHOLDS;
+	}
+}
+
+export interface CalibrationResult {
+	// Null when the model does not rank correct over partial over wrong answers
+	thresholds: SimilarityThresholds | null;
+	// Median similarity to the reference answer per grade
+	medians: Record<"correct" | "partial" | "incorrect", number>;
+}
+
+/**
+ * Embeds the built-in answer pairs with the active embedding model and places each
+ * threshold halfway between the median similarities of the neighbouring grades.
+ */
+export async function calibrateSimilarity(
+	settings: DeepNotesSettings,
+	onProgress?: (done: number, total: number) => void,
+	signal?: AbortSignal
+): Promise<CalibrationResult> {
+	const scores: Record<"correct" | "partial" | "incorrect", number[]> = { correct: [], partial: [], incorrect: [] };
+	const total = CALIBRATION_CASES.length;
+
+	for (let i = 0; i < total; i++) {
+		throwIfAborted(signal);
+		const c = CALIBRATION_CASES[i];
+		const reference = await getEmbedding(c.reference, settings, signal);
+		for (const grade of ["correct", "partial", "incorrect"] as const) {
+			scores[grade].push(cosineSimilarity(reference, await getEmbedding(c[grade], settings, signal)));
+		}
+		onProgress?.(i + 1, total);
+	}
+
+	const correct = median(scores.correct);
+	const partial = median(scores.partial);
+	const incorrect = median(scores.incorrect);
+	const medians = { correct, partial, incorrect };
+	if (!(correct > partial && partial > incorrect)) {
+		return { thresholds: null, medians };
+	}
+
+	return {
+		thresholds: {
+			correct: round((correct + partial) / 2),
+			partial: round((partial + incorrect) / 2),
+			calibratedAt: Date.now(),
+		},
+		medians,
+	};
+}
+
+function median(values: number[]): number {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function round(value: number): number {
+	return Math.round(value * 1000) / 1000;
+}
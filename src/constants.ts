@@ -1,97 +1,222 @@
 export const VIEW_TYPE_DEEP_NOTES = "deep-notes-view";
+export const VIEW_TYPE_DEEP_NOTES_REVIEW = "deep-notes-review";
+export const VIEW_TYPE_DEEP_NOTES_DASHBOARD = "deep-notes-dashboard";
+export const VIEW_TYPE_DEEP_NOTES_INDEX = "deep-notes-index";
 
-export type AIProvider = "gemini" | "ollama";
+export type AIProvider = "gemini" | "openai" | "anthropic" | "ollama" | "openai-compatible";
 
 export const PROVIDERS: { value: AIProvider; label: string }[] = [
   { value: "gemini", label: "Google Gemini" },
+  { value: "openai", label: "OpenAI" },
+  { value: "anthropic", label: "Anthropic" },
   { value: "ollama", label: "Ollama (Local)" },
+  { value: "openai-compatible", label: "OpenAI-Compatible Endpoint" },
 ];
 
 export const MODELS_BY_PROVIDER: Record<AIProvider, string[]> = {
   gemini: ["gemini-2.0-flash", "gemini-2.0-flash-lite", "gemini-1.5-pro"],
+  openai: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini", "gpt-4.1"],
+  anthropic: ["claude-3-5-haiku-latest", "claude-3-5-sonnet-latest", "claude-3-7-sonnet-latest"],
   ollama: ["llama3.2:latest", "llava:latest", "llama3.2:3b", "qwen2.5:3b", "mistral:7b"],
+  // Served models vary per server (LM Studio, llama.cpp, vLLM), so the model name is typed in
+  "openai-compatible": [],
 };
 
 export const DEFAULT_MODEL_BY_PROVIDER: Record<AIProvider, string> = {
   gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-haiku-latest",
   ollama: "llama3.2:latest",
+  "openai-compatible": "",
 };
 
-// Default system prompt for generating Deep Notes items
+// Models used for the "Scan Images" button. Local providers' are configurable in settings.
+export const VISION_MODEL_BY_PROVIDER: Record<AIProvider, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-3-5-sonnet-latest",
+  ollama: "llava:latest",
+  "openai-compatible": "",
+};
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://127.0.0.1:1234/v1";
+
+// Context window (tokens) assumed when the user has not set one for the model.
+// Local servers load models with a small window by default, whatever the model supports.
+export const CONTEXT_WINDOW_BY_PROVIDER: Record<AIProvider, number> = {
+  gemini: 1000000,
+  openai: 128000,
+  anthropic: 200000,
+  ollama: 4096,
+  "openai-compatible": 4096,
+};
+
+// Default system prompt for generating Deep Notes items.
+// Prompts are templates: {{count}}, {{language}} etc. are filled in by renderPrompt (see prompts.ts).
+// Bump the version in BUILTIN_PROMPTS when changing a default.
 export const DEFAULT_SYSTEM_PROMPT = `
 You are a Socratic tutor designed to help users deepen their understanding of their notes.
-Your goal is to generate exactly 6 items based on the user's note and any provided related context.
+Your goal is to generate exactly {{count}} items based on the user's note and any provided related context.
+Write every item in {{language}}.
 
 You will receive:
 1. The Current Note Content.
-2. "Related Concepts from Other Notes" (optional) - potential connections to other files in the user's vault.
+2. "Related Concepts from Other Notes" (optional) - potential connections to other files in the user's vault, grouped by note.
+
+Output exactly {{count}} items, in this order:
+{{mix}}
 
-Output exactly 6 items in this order:
-1-2. Two (2) "knowledge-expansion" questions: Probing questions about the CURRENT note's topic.
-3-4. Two (2) "suggestion" items: Actionable ideas for improving or expanding the current note.
-5-6. Two (2) "cross-topic" questions: Questions that connect the *current* note's concepts with the *related* concepts provided. 
-   - CRITICAL: If no related context is provided, or if the connection is weak, REPLACE these with 2 more knowledge-expansion questions instead.
+Item types:
+- "knowledge-expansion": Probing questions about the CURRENT note's topic.
+- "suggestion": Actionable ideas for improving or expanding the current note.
+- "cross-topic": Questions that connect the *current* note's concepts with the *related* concepts provided. 
+   - CRITICAL: If the connection to the related notes is weak, REPLACE these with more knowledge-expansion questions instead.
+   - When several related notes are provided, connect each cross-topic item to a different one.
 
-Return the response as a valid JSON array of objects.
-Each object MUST have:
+Return the response as a JSON object of the form {"items": [...]}.
+Each item MUST have:
 - "type": "knowledge-expansion", "suggestion", or "cross-topic"
 - "text": The content of the question or suggestion.
 - "sample_answer": A concise, ideal answer to the question (or rationale for the suggestion). This is CRITICAL for evaluation.
+- "key_concepts": 2 to 4 short rubric points that a complete answer must cover, each a few words. Every point must appear in "sample_answer". Omit for "suggestion" items.
 - "source_excerpt": The exact, verbatim quote from the note that inspired this question. This is used to highlight the text in the note.
-- "sourceNote": (Only for "cross-topic") The title of the related note you are connecting to.
+- "source_note": (Only for "cross-topic") The title of the related note you are connecting to.
+- "format": How the item is answered. Use only these formats, spread evenly across the questions ("suggestion" items are always "open"):
+{{formats}}
 
 Example:
-[
-  {
-    "type": "knowledge-expansion", 
-    "text": "How does the concept of 'entropy' here relate to information theory?",
-    "sample_answer": "In both fields, entropy measures uncertainty. In thermodynamics, it's energy unavailable for work; in information theory, it's the surprise in a message.",
-    "source_excerpt": "entropy is a measure of the disorder of a system"
-  },
-  {
-    "type": "suggestion",
-    "text": "Consider adding a section on the 'Heat Death of the Universe'.",
-    "sample_answer": "This provides a concrete application of the second law of thermodynamics.",
-    "source_excerpt": "The second law of thermodynamics states that the total entropy of an isolated system can never decrease"
-  },
-  {
-    "type": "cross-topic",
-    "text": "How does the 'feedback loop' discussed here relate to the 'Control Systems' note?",
-    "sample_answer": "Both notes describe homeostatic mechanisms, but this note focuses on biological feedback while Control Systems focuses on mechanical PID loops.",
-    "sourceNote": "Control Systems",
-    "source_excerpt": "biological systems maintain homeostasis through negative feedback loops"
-  }
-]
+{
+  "items": [
+    {
+      "type": "knowledge-expansion", 
+      "text": "How does the concept of 'entropy' here relate to information theory?",
+      "sample_answer": "In both fields, entropy measures uncertainty. In thermodynamics, it's energy unavailable for work; in information theory, it's the surprise in a message.",
+      "key_concepts": ["entropy measures uncertainty", "thermodynamics: energy unavailable for work", "information theory: surprise in a message"],
+      "source_excerpt": "entropy is a measure of the disorder of a system"
+    },
+    {
+      "type": "suggestion",
+      "text": "Consider adding a section on the 'Heat Death of the Universe'.",
+      "sample_answer": "This provides a concrete application of the second law of thermodynamics.",
+      "source_excerpt": "The second law of thermodynamics states that the total entropy of an isolated system can never decrease"
+    },
+    {
+      "type": "cross-topic",
+      "text": "How does the 'feedback loop' discussed here relate to the 'Control Systems' note?",
+      "sample_answer": "Both notes describe homeostatic mechanisms, but this note focuses on biological feedback while Control Systems focuses on mechanical PID loops.",
+      "key_concepts": ["both describe homeostatic mechanisms", "biological vs mechanical feedback"],
+      "source_note": "Control Systems",
+      "source_excerpt": "biological systems maintain homeostasis through negative feedback loops"
+    }
+  ]
+}
 `;
 
+export const DEFAULT_USER_PROMPT = `## Current Note
+{{note}}
+
+{{related}}`;
+
 export const IMAGE_SCAN_SYSTEM_PROMPT = `
 You are a visual analyst and Socratic tutor.
 Analyze the provided images and the context from the note.
-Generate 5 items that help the user understand the visual content (diagrams, charts, formulas).
+Generate {{count}} items that help the user understand the visual content (diagrams, charts, formulas).
+Write every item in {{language}}.
 
-Return the response as a valid JSON array of objects.
-Each object MUST have:
-- "type": "question"
+Return the response as a JSON object of the form {"items": [...]}.
+Each item MUST have:
+- "type": "knowledge-expansion"
 - "text": The content of the question.
 - "sample_answer": "A concise, ideal answer based on the visual evidence."
+- "key_concepts": 2 to 4 short rubric points that a complete answer must cover, each a few words.
+
+Example:
+{
+  "items": [
+    {
+      "type": "knowledge-expansion",
+      "text": "What is the relationship between the X and Y axes in the provided graph?",
+      "sample_answer": "The X axis represents time \`t\` and the Y axis represents velocity \`v\`. The positive slope indicates constant acceleration.",
+      "key_concepts": ["X axis is time", "Y axis is velocity", "positive slope means constant acceleration"]
+    }
+  ]
+}
+`;
+
+export const IMAGE_SCAN_USER_PROMPT = `FOCUS ON THE IMAGES. Generate questions about what the image(s) show — the diagrams, formulas, calculations, and visual content.{{annotations}}
+
+For background context only (do NOT generate questions about this text directly), here is the note this image belongs to:
+
+{{note}}`;
+
+export const GO_DEEPER_SYSTEM_PROMPT = `
+You are a Socratic tutor. The user has answered a question about their note.
+Your goal is to generate {{count}} follow-up question to probe deeper into their understanding, challenge a misconception, or ask for clarification.
+Write in {{language}}.
+
+Output exactly {{count}} item as a JSON object of the form {"items": [...]}.
+The item MUST have:
+- "type": "knowledge-expansion"
+- "text": The content of the follow-up question.
+- "sample_answer": A concise, ideal answer to this follow-up question.
+- "key_concepts": 2 to 4 short rubric points that a complete answer must cover, each a few words.
+- "source_excerpt": (Optional) If there is a specific quote in the text relevant to this new question, include it.
 
 Example:
-[
-  {
-    "type": "question",
-    "text": "What is the relationship between the X and Y axes in the provided graph?",
-    "sample_answer": "The X axis represents time \`t\` and the Y axis represents velocity \`v\`. The positive slope indicates constant acceleration."
-  }
-]
+{
+  "items": [
+    {
+      "type": "knowledge-expansion",
+      "text": "You mentioned X, but how does that account for Y?",
+      "sample_answer": "Y is actually a special case of X because...",
+      "key_concepts": ["Y is a special case of X"]
+    }
+  ]
+}
 `;
 
-// Returns the appropriate system prompt for the selected AI provider
-export function getSystemPrompt(provider: string): string {
-  // Only Ollama needs special instructions, Gemini uses default
-  if (provider === "ollama") {
-    return `${DEFAULT_SYSTEM_PROMPT}\n\nIMPORTANT: For 'source_excerpt', always copy the exact phrase from the note, without paraphrasing or summarizing. If unsure, quote the full sentence. Do not invent or reword the excerpt. If you cannot find a relevant excerpt, return the full sentence or paragraph from the note.`;
-  }
-  return DEFAULT_SYSTEM_PROMPT;
+export const GO_DEEPER_USER_PROMPT = `Original Question: "{{question}}"
+Ideal Answer: "{{sample_answer}}"
+User's Response: "{{response}}"
+
+Current Note Context:
+{{note}}`;
+
+export const GRADING_SYSTEM_PROMPT = `
+You are a strict but fair examiner. A student has answered questions about their own note.
+Grade each answer against its ideal answer, its key points, the source excerpt and the note, using this rubric:
+- "correct" (score 85-100): states the key concepts of the ideal answer with no factual errors. Different wording, examples or order are fine.
+- "partial" (score 40-84): gets the core idea but leaves out key concepts, stays vague, or contains a minor error.
+- "incorrect" (score 0-39): wrong, contradicts the note, or repeats the question's terms without saying anything true and relevant.
+Judge meaning, not wording: a correct paraphrase is correct, and a confident answer that uses the right terms but states something false is incorrect.
+Write explanations and missing concepts in {{language}}. Each explanation is one or two sentences addressed to the student ("You ...").
+
+Output a JSON object of the form {"grades": [...]} with one grade per answer, in the same order.
+Each grade MUST have:
+- "index": The number of the answer it grades.
+- "rating": "correct", "partial" or "incorrect".
+- "score": An integer from 0 to 100 within the rating's range.
+- "explanation": Why the answer earned this rating.
+- "missing_concepts": Key concepts from the ideal answer that the student left out or got wrong (an empty array if none).
+- "covered_points": The numbers of the answer's key points that the student covered correctly (an empty array if none or if no key points are listed).
+
+Example:
+{
+  "grades": [
+    {
+      "index": 1,
+      "rating": "partial",
+      "score": 60,
+      "explanation": "You explain what X does, but not why it is needed when Y fails.",
+      "missing_concepts": ["Y as the failure case"],
+      "covered_points": [1]
+    }
+  ]
 }
+`;
 
+export const GRADING_USER_PROMPT = `## Note
+{{note}}
 
+## Answers to Grade
+{{answers}}`;
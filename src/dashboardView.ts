@@ -0,0 +1,160 @@
+import { ItemView, WorkspaceLeaf, TFile, setIcon } from "obsidian";
+import { VIEW_TYPE_DEEP_NOTES_DASHBOARD } from "./constants";
+import { ActivityDay, buildDashboard, formatDay, GroupScore, NoteTrend, ScorePoint } from "./analytics";
+import type DeepNotesPlugin from "./main";
+
+const SPARKLINE_WIDTH = 120;
+const SPARKLINE_HEIGHT = 28;
+
+function scoreClass(score: number): string {
+	return score >= 80 ? "score-green" : score >= 50 ? "score-yellow" : "score-red";
+}
+
+/**
+ * Learning analytics across all saved sessions: score trends, weakest notes,
+ * folders and question kinds, answer rates and study activity.
+ */
+export class DeepNotesDashboardView extends ItemView {
+	plugin: DeepNotesPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: DeepNotesPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_DEEP_NOTES_DASHBOARD;
+	}
+
+	getDisplayText(): string {
+		return "Deep Notes Dashboard";
+	}
+
+	getIcon(): string {
+		return "bar-chart-2";
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+	}
+
+	render(): void {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("deep-notes-container", "deep-notes-dashboard");
+
+		const header = container.createDiv({ cls: "deep-notes-header deep-notes-review-header" });
+		header.createEl("h4", { text: "Learning Dashboard" });
+		const refreshBtn = header.createEl("button", {
+			cls: "deep-notes-review-refresh",
+			attr: { "aria-label": "Refresh" },
+		});
+		setIcon(refreshBtn, "refresh-cw");
+		refreshBtn.addEventListener("click", () => this.render());
+
+		const dashboard = buildDashboard(this.plugin.historyStore.all());
+		if (dashboard.sessionCount === 0) {
+			container.createDiv({ cls: "deep-notes-review-empty", text: "No sessions yet. Evaluate some questions first." });
+			return;
+		}
+
+		const total = dashboard.answers.answered + dashboard.answers.skipped;
+		const answeredRate = total > 0 ? Math.round((dashboard.answers.answered / total) * 100) : 0;
+		const stats = container.createDiv({ cls: "deep-notes-dashboard-stats" });
+		this.renderStat(stats, String(dashboard.sessionCount), "Sessions");
+		this.renderStat(stats, String(dashboard.trends.length), "Notes evaluated");
+		this.renderStat(stats, `${answeredRate}%`, `Answered (${dashboard.answers.answered} of ${total})`);
+		this.renderStat(stats, String(dashboard.answers.skipped), "Skipped");
+
+		this.renderActivity(this.section(container, "Study activity"), dashboard.activity);
+		this.renderNotes(this.section(container, "Weakest notes"), dashboard.weakestNotes);
+		this.renderGroups(this.section(container, "Weakest folders"), dashboard.weakestFolders, "notes");
+		this.renderGroups(this.section(container, "Scores by question type"), dashboard.typeScores, "answers");
+		this.renderGroups(this.section(container, "Scores by format"), dashboard.formatScores, "answers");
+		this.renderNotes(this.section(container, "Score trend per note"), dashboard.trends);
+	}
+
+	private section(container: HTMLElement, title: string): HTMLElement {
+		const section = container.createDiv({ cls: "deep-notes-dashboard-section" });
+		section.createEl("h5", { text: title, cls: "deep-notes-history-title" });
+		return section;
+	}
+
+	private renderStat(container: HTMLElement, value: string, label: string): void {
+		const stat = container.createDiv({ cls: "deep-notes-dashboard-stat" });
+		stat.createDiv({ text: value, cls: "deep-notes-dashboard-stat-value" });
+		stat.createDiv({ text: label, cls: "deep-notes-dashboard-stat-label" });
+	}
+
+	private renderNotes(container: HTMLElement, trends: NoteTrend[]): void {
+		for (const trend of trends) {
+			const row = container.createDiv({ cls: "deep-notes-dashboard-row" });
+			const link = row.createEl("a", { text: trend.noteTitle, cls: "deep-notes-dashboard-label" });
+			link.setAttr("aria-label", trend.notePath);
+			link.addEventListener("click", () => this.openNote(trend.notePath));
+			this.renderSparkline(row, trend.points);
+			row.createSpan({
+				text: `${trend.latest}%`,
+				cls: `deep-notes-badge deep-notes-history-score ${scoreClass(trend.latest)}`,
+				attr: { "aria-label": `Average ${trend.average}% over ${trend.points.length} sessions` },
+			});
+		}
+	}
+
+	private renderGroups(container: HTMLElement, groups: GroupScore[], unit: string): void {
+		if (groups.length === 0) {
+			container.createDiv({ cls: "deep-notes-dashboard-muted", text: "No graded answers yet." });
+			return;
+		}
+		for (const group of groups) {
+			const row = container.createDiv({ cls: "deep-notes-dashboard-row" });
+			row.createSpan({ text: group.label, cls: "deep-notes-dashboard-label" });
+			const bar = row.createDiv({ cls: "deep-notes-dashboard-bar" });
+			bar.createDiv({ cls: `deep-notes-dashboard-bar-fill ${scoreClass(group.average)}` }).style.width = `${group.average}%`;
+			row.createSpan({
+				text: `${group.average}%`,
+				cls: "deep-notes-dashboard-value",
+				attr: { "aria-label": `${group.count} ${unit}` },
+			});
+		}
+	}
+
+	// Score over time; a single session is drawn as a dot
+	private renderSparkline(container: HTMLElement, points: ScorePoint[]): void {
+		const svg = container.createSvg("svg", {
+			cls: "deep-notes-sparkline",
+			attr: { width: SPARKLINE_WIDTH, height: SPARKLINE_HEIGHT, viewBox: `0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}` },
+		});
+		const coords = points.map((p, i) => {
+			const x = points.length > 1 ? (i / (points.length - 1)) * (SPARKLINE_WIDTH - 4) + 2 : SPARKLINE_WIDTH / 2;
+			const y = SPARKLINE_HEIGHT - 2 - (p.score / 100) * (SPARKLINE_HEIGHT - 4);
+			return `${x.toFixed(1)},${y.toFixed(1)}`;
+		});
+		if (coords.length > 1) {
+			svg.createSvg("polyline", { attr: { points: coords.join(" ") } });
+		}
+		const [lastX, lastY] = coords[coords.length - 1].split(",");
+		svg.createSvg("circle", { attr: { cx: lastX, cy: lastY, r: 2 } });
+	}
+
+	// GitHub-style grid: one column per week, Sunday on top
+	private renderActivity(container: HTMLElement, days: ActivityDay[]): void {
+		const max = Math.max(1, ...days.map((d) => d.answers));
+		const grid = container.createDiv({ cls: "deep-notes-heatmap" });
+		for (const day of days) {
+			const level = day.answers === 0 ? 0 : Math.ceil((day.answers / max) * 4);
+			const date = formatDay(day.day);
+			grid.createDiv({
+				cls: `deep-notes-heatmap-day level-${level}`,
+				attr: { "aria-label": `${date}: ${day.sessions} session${day.sessions === 1 ? "" : "s"}, ${day.answers} answers` },
+			});
+		}
+	}
+
+	private async openNote(notePath: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (file instanceof TFile) {
+			await this.app.workspace.getLeaf("tab").openFile(file, { active: true });
+		}
+	}
+}
@@ -1,83 +1,32 @@
 import type { DeepNotesSettings } from "./settings";
+import { getEmbeddingProvider } from "./providers";
 
-export type EmbeddingProvider = "gemini" | "ollama";
+export type EmbeddingProvider = "gemini" | "ollama" | "openai-compatible";
 
-async function embedWithGemini(text: string, apiKey: string): Promise<number[]> {
-    if (!apiKey) {
-        throw new Error("Gemini API key is required but not set.");
-    }
-    const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-embedding-001:embedContent?key=${apiKey}`;
-    const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-            content: { parts: [{ text }] },
-        }),
-    });
-
-    if (!response.ok) {
-        let err = await response.text();
-        try {
-            // Try to parse JSON error for cleaner message
-            const jsonErr = JSON.parse(err);
-            if (jsonErr.error && jsonErr.error.message) {
-                err = jsonErr.error.message;
-            }
-        } catch (_) { /* ignore */ }
-        throw new Error(`Gemini Embedding API error (${response.status}): ${err}`);
-    }
-
-    const data = await response.json();
-    return data.embedding?.values ?? [];
-}
-
-async function embedWithOllama(
+export async function getEmbedding(
     text: string,
-    model: string,
-    baseUrl: string
+    settings: DeepNotesSettings,
+    signal?: AbortSignal
 ): Promise<number[]> {
-    const normalizedBase = baseUrl.replace(/\/$/, "");
-    const url = `${normalizedBase}/api/embeddings`;
-
-    const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-            model: model,
-            prompt: text,
-        }),
-    });
-
-    if (!response.ok) {
-        let err = await response.text();
-        // Handle model not found error gracefully
-        if (response.status === 404 && /not found/i.test(err)) {
-            throw new Error(
-                `Ollama model "${model}" was not found locally. Run: ollama pull ${model}`
-            );
-        }
-        throw new Error(`Ollama Embedding API error (${response.status}): ${err}`);
-    }
+    const provider = getEmbeddingProvider(settings);
+    return provider.embed!(text, signal);
+}
 
-    const data = await response.json();
-    if (!data.embedding || !Array.isArray(data.embedding)) {
-        throw new Error("Ollama response missing 'embedding' array.");
-    }
-    return data.embedding;
+// "provider:model" of the active embedding model; similarity scores are only comparable within one key
+export function getEmbeddingModelKey(settings: DeepNotesSettings): string {
+    const provider = getEmbeddingProvider(settings);
+    return `${provider.id}:${provider.embeddingModel ?? ""}`;
 }
 
-export async function getEmbedding(
-    text: string,
-    settings: DeepNotesSettings
-): Promise<number[]> {
-    if (settings.embeddingProvider === "ollama") {
-        return embedWithOllama(
-            text,
-            settings.ollamaEmbeddingModel || "nomic-embed-text",
-            settings.ollamaBaseUrl || "http://127.0.0.1:11434"
-        );
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+    if (vecA.length !== vecB.length) return 0;
+    let dot = 0;
+    let magA = 0;
+    let magB = 0;
+    for (let i = 0; i < vecA.length; i++) {
+        dot += vecA[i] * vecB[i];
+        magA += vecA[i] * vecA[i];
+        magB += vecB[i] * vecB[i];
     }
-
-    // Default to Gemini
-    return embedWithGemini(text, settings.geminiApiKey);
+    return magA === 0 || magB === 0 ? 0 : dot / (Math.sqrt(magA) * Math.sqrt(magB));
 }
@@ -0,0 +1,253 @@
+import { fnv1a } from "../hash";
+import type { ExportCard } from "./cards";
+import { SqlTable, writeDatabase } from "./sqlite";
+import { zipStored } from "./zip";
+
+export type DelimitedFormat = "csv" | "tsv";
+
+// Fields of the exported note type, also the columns of CSV/TSV files
+const FIELDS = ["Front", "Back", "Excerpt", "Source", "Tags"];
+
+// Fixed so that every export shares one note type and re-imports update notes in place
+const MODEL_ID = 1718700000001;
+const MODEL_NAME = "Deep Notes";
+const DECK_ID_BASE = 1718700000000;
+
+const CARD_CSS = `.card {
+	font-family: arial;
+	font-size: 20px;
+	text-align: left;
+	color: black;
+	background-color: white;
+}
+blockquote {
+	color: #666;
+	border-left: 3px solid #ccc;
+	margin-left: 0;
+	padding-left: 10px;
+}
+.source {
+	font-size: 14px;
+	margin-top: 16px;
+}`;
+
+const ANSWER_TEMPLATE =
+	"{{FrontSide}}<hr id=answer>{{Back}}{{#Excerpt}}<blockquote>{{Excerpt}}</blockquote>{{/Excerpt}}<div class=\"source\">{{Source}}</div>";
+
+/**
+ * Anki text import file. The header lines tell Anki the separator, that fields
+ * are HTML, which column holds tags and which holds the note GUID.
+ */
+export function toDelimited(cards: ExportCard[], format: DelimitedFormat, vaultName: string): string {
+	const separator = format === "csv" ? "," : "\t";
+	const columns = [...FIELDS, "GUID"];
+	const lines = [
+		`#separator:${format === "csv" ? "Comma" : "Tab"}`,
+		"#html:true",
+		`#columns:${columns.join(separator)}`,
+		`#tags column:${FIELDS.indexOf("Tags") + 1}`,
+		`#guid column:${columns.length}`,
+	];
+	for (const card of cards) {
+		const row = [...fieldValues(card, vaultName), noteGuid(card)];
+		lines.push(row.map((value) => quoteField(value, separator)).join(separator));
+	}
+	return lines.join("\n") + "\n";
+}
+
+// An .apkg package: a zipped Anki collection holding one deck of new cards
+export async function buildApkg(cards: ExportCard[], deckName: string, vaultName: string, now = Date.now()): Promise<Uint8Array> {
+	const seconds = Math.floor(now / 1000);
+	const deckId = DECK_ID_BASE + parseInt(fnv1a(deckName), 36);
+
+	const notes: SqlTable["rows"] = [];
+	const ankiCards: SqlTable["rows"] = [];
+	for (let i = 0; i < cards.length; i++) {
+		const card = cards[i];
+		const fields = fieldValues(card, vaultName);
+		const sortField = stripHtml(fields[0]);
+		const tags = card.tags.length > 0 ? ` ${card.tags.map(ankiTag).join(" ")} ` : "";
+		const noteId = now + i;
+		notes.push({
+			rowid: noteId,
+			values: [null, noteGuid(card), MODEL_ID, seconds, -1, tags, fields.join("\x1f"), sortField, await checksum(sortField), 0, ""],
+		});
+		// New card: type and queue 0, due is the position in the new queue
+		ankiCards.push({
+			rowid: noteId,
+			values: [null, noteId, deckId, 0, seconds, -1, 0, 0, i + 1, 0, 0, 0, 0, 0, 0, 0, 0, ""],
+		});
+	}
+
+	const collection = writeDatabase([
+		{
+			name: "col",
+			sql: "CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)",
+			rows: [{
+				rowid: 1,
+				values: [
+					null, seconds, now, now, 11, 0, 0, 0,
+					JSON.stringify(collectionConfig(deckId)),
+					JSON.stringify({ [MODEL_ID]: noteType(deckId, seconds) }),
+					JSON.stringify({ 1: deck(1, "Default", seconds), [deckId]: deck(deckId, deckName, seconds) }),
+					JSON.stringify({ 1: DECK_OPTIONS }),
+					"{}",
+				],
+			}],
+		},
+		{
+			name: "notes",
+			sql: "CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)",
+			rows: notes,
+		},
+		{
+			name: "cards",
+			sql: "CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)",
+			rows: ankiCards,
+		},
+		{
+			name: "revlog",
+			sql: "CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)",
+			rows: [],
+		},
+		{
+			name: "graves",
+			sql: "CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)",
+			rows: [],
+		},
+	]);
+
+	return zipStored([
+		{ name: "collection.anki2", data: collection },
+		{ name: "media", data: new TextEncoder().encode("{}") },
+	]);
+}
+
+function fieldValues(card: ExportCard, vaultName: string): string[] {
+	const link = `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(card.notePath)}`;
+	return [
+		toHtml(card.front),
+		toHtml(card.back),
+		toHtml(card.excerpt),
+		`<a href="${escapeHtml(link)}">${escapeHtml(card.noteTitle)}</a>`,
+		card.tags.map(ankiTag).join(" "),
+	];
+}
+
+function noteGuid(card: ExportCard): string {
+	return `deep-notes-${card.id}`;
+}
+
+// Anki tags are space separated; nested Obsidian tags map to Anki's "::" hierarchy
+function ankiTag(tag: string): string {
+	return tag.replace(/\s+/g, "_").replace(/\//g, "::");
+}
+
+function quoteField(value: string, separator: string): string {
+	return value.includes(separator) || /["\n\r]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+function toHtml(text: string): string {
+	return escapeHtml(text).replace(/\r?\n/g, "<br>");
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function stripHtml(html: string): string {
+	return html
+		.replace(/<br>/g, " ")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, "\"")
+		.replace(/&amp;/g, "&");
+}
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+async function checksum(text: string): Promise<number> {
+	const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(text));
+	return new DataView(digest).getUint32(0);
+}
+
+function noteType(deckId: number, seconds: number): Record<string, unknown> {
+	return {
+		id: MODEL_ID,
+		name: MODEL_NAME,
+		type: 0,
+		mod: seconds,
+		usn: -1,
+		sortf: 0,
+		did: deckId,
+		tmpls: [{
+			name: "Card 1",
+			ord: 0,
+			qfmt: "{{Front}}",
+			afmt: ANSWER_TEMPLATE,
+			bqfmt: "",
+			bafmt: "",
+			did: null,
+		}],
+		flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+		css: CARD_CSS,
+		latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+		latexPost: "\\end{document}",
+		latexsvg: false,
+		req: [[0, "any", [0]]],
+		tags: [],
+		vers: [],
+	};
+}
+
+function deck(id: number, name: string, seconds: number): Record<string, unknown> {
+	return {
+		id,
+		name,
+		mod: seconds,
+		usn: -1,
+		desc: "",
+		dyn: 0,
+		conf: 1,
+		collapsed: false,
+		browserCollapsed: false,
+		extendNew: 0,
+		extendRev: 0,
+		lrnToday: [0, 0],
+		revToday: [0, 0],
+		newToday: [0, 0],
+		timeToday: [0, 0],
+	};
+}
+
+function collectionConfig(deckId: number): Record<string, unknown> {
+	return {
+		nextPos: 1,
+		estTimes: true,
+		activeDecks: [deckId],
+		sortType: "noteFld",
+		timeLim: 0,
+		sortBackwards: false,
+		addToCur: true,
+		curDeck: deckId,
+		newSpread: 0,
+		dueCounts: true,
+		curModel: String(MODEL_ID),
+		collapseTime: 1200,
+	};
+}
+
+const DECK_OPTIONS = {
+	id: 1,
+	name: "Default",
+	mod: 0,
+	usn: 0,
+	maxTaken: 60,
+	autoplay: true,
+	timer: 0,
+	replayq: true,
+	dyn: false,
+	new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+	lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+	rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+};
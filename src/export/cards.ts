@@ -0,0 +1,99 @@
+import type { DeepNotesItem } from "../ai";
+import { flattenItems } from "../history";
+import { getItemFormat, initialStepOrder, splitCloze } from "../questionFormats";
+import { cardId } from "../reviewStore";
+
+// Questions of one note to export
+export interface ExportSource {
+	notePath: string;
+	noteTitle: string;
+	items: DeepNotesItem[];
+	// Tags of the note, without "#"
+	tags: string[];
+}
+
+/**
+ * One flashcard in plain text; each target format escapes it as needed.
+ * Follow-up questions become cards of their own.
+ */
+export interface ExportCard {
+	// Same id as the question's review card, stable across exports
+	id: string;
+	front: string;
+	back: string;
+	excerpt: string;
+	notePath: string;
+	noteTitle: string;
+	tags: string[];
+}
+
+// Cards for every question and follow-up, each question once per note
+export function toExportCards(sources: ExportSource[]): ExportCard[] {
+	const cards: ExportCard[] = [];
+	const seen = new Set<string>();
+	for (const source of sources) {
+		for (const item of flattenItems(source.items)) {
+			const id = cardId(source.notePath, item.text);
+			if (seen.has(id)) continue;
+			seen.add(id);
+			cards.push({
+				id,
+				front: cardFront(item),
+				back: cardBack(item),
+				excerpt: getItemFormat(item) === "cloze" ? "" : item.sourceExcerpt ?? "",
+				notePath: source.notePath,
+				noteTitle: source.noteTitle,
+				tags: source.tags,
+			});
+		}
+	}
+	return cards;
+}
+
+function cardFront(item: DeepNotesItem): string {
+	switch (getItemFormat(item)) {
+		case "multiple-choice":
+			return [item.text, ...(item.choices ?? []).map((choice, i) => `${choiceLetter(i)}. ${choice}`)].join("\n");
+		case "true-false":
+			return `True or false: ${item.text}`;
+		case "cloze": {
+			const cloze = splitCloze(item);
+			return cloze ? `${cloze.before}[...]${cloze.after}\n${item.text}` : item.text;
+		}
+		case "ordering":
+			return [item.text, ...initialStepOrder(item).map((step) => `- ${step}`)].join("\n");
+		default:
+			return item.text;
+	}
+}
+
+function cardBack(item: DeepNotesItem): string {
+	const lines: string[] = [];
+	switch (getItemFormat(item)) {
+		case "multiple-choice": {
+			const index = item.correctChoice ?? -1;
+			const correct = item.choices?.[index];
+			if (correct !== undefined) lines.push(`${choiceLetter(index)}. ${correct}`);
+			break;
+		}
+		case "true-false":
+			lines.push(item.isTrue ? "True" : "False");
+			break;
+		case "cloze":
+			if (item.clozeAnswer) lines.push(item.clozeAnswer);
+			break;
+		case "ordering":
+			lines.push(...(item.steps ?? []).map((step, i) => `${i + 1}. ${step}`));
+			break;
+	}
+	if (item.sampleAnswer) lines.push(item.sampleAnswer);
+	if (item.keyConcepts && item.keyConcepts.length > 0) {
+		lines.push("Key points:", ...item.keyConcepts.map((concept) => `- ${concept}`));
+	}
+	if (item.sourceNote) lines.push(`Related note: ${item.sourceNote}`);
+	return lines.join("\n");
+}
+
+function choiceLetter(index: number): string {
+	return String.fromCharCode(65 + index);
+}
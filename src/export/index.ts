@@ -0,0 +1,121 @@
+import { App, Notice, TFile, getAllTags, normalizePath } from "obsidian";
+import type { DeepNotesItem } from "../ai";
+import { getCachedItems } from "../view";
+import type DeepNotesPlugin from "../main";
+import { ExportSource, toExportCards } from "./cards";
+import { buildApkg, DelimitedFormat, toDelimited } from "./anki";
+import { formatSrCards, upsertSrSection } from "./srPlugin";
+
+export type { ExportCard, ExportSource } from "./cards";
+export { toExportCards } from "./cards";
+export { buildApkg, toDelimited } from "./anki";
+export { formatSrCards, upsertSrSection } from "./srPlugin";
+
+export type AnkiFormat = DelimitedFormat | "apkg";
+
+export const ANKI_FORMATS: { value: AnkiFormat; label: string }[] = [
+	{ value: "apkg", label: ".apkg" },
+	{ value: "csv", label: "CSV" },
+	{ value: "tsv", label: "TSV" },
+];
+
+const VAULT_DECK_NAME = "Deep Notes";
+
+/**
+ * Writes the questions of the active note, or of every note with questions,
+ * to an Anki file in the export folder. Questions come from the open view and
+ * from session history.
+ */
+export async function exportToAnki(plugin: DeepNotesPlugin, format: AnkiFormat, scope: "note" | "vault"): Promise<void> {
+	let notePath: string | undefined;
+	if (scope === "note") {
+		const file = plugin.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice("No active note to export.");
+			return;
+		}
+		notePath = file.path;
+	}
+
+	const cards = toExportCards(collectSources(plugin, notePath));
+	if (cards.length === 0) {
+		new Notice("No questions to export. Generate some questions first.");
+		return;
+	}
+
+	const fileName = notePath ? cards[0].noteTitle : VAULT_DECK_NAME;
+	const deckName = notePath ? `${VAULT_DECK_NAME}::${fileName}` : VAULT_DECK_NAME;
+	const vaultName = plugin.app.vault.getName();
+	const path = await exportPath(plugin, `${fileName}.${format}`);
+
+	try {
+		if (format === "apkg") {
+			const data = await buildApkg(cards, deckName, vaultName);
+			await plugin.app.vault.adapter.writeBinary(path, data.buffer);
+		} else {
+			await plugin.app.vault.adapter.write(path, toDelimited(cards, format, vaultName));
+		}
+		new Notice(`Exported ${cards.length} card${cards.length > 1 ? "s" : ""} to ${path}`);
+	} catch (e) {
+		console.error("Deep Notes: Anki export failed", e);
+		new Notice(`Export failed: ${e instanceof Error ? e.message : e}`);
+	}
+}
+
+// Adds the active note's questions to the note itself as Spaced Repetition plugin cards
+export async function writeSrCards(plugin: DeepNotesPlugin): Promise<void> {
+	const file = plugin.app.workspace.getActiveFile();
+	if (!file) {
+		new Notice("No active note.");
+		return;
+	}
+
+	const cards = toExportCards(collectSources(plugin, file.path));
+	if (cards.length === 0) {
+		new Notice("No questions for this note. Generate some questions first.");
+		return;
+	}
+
+	const block = formatSrCards(cards, plugin.settings.flashcardTag);
+	await plugin.app.vault.process(file, (content) => upsertSrSection(content, block));
+	new Notice(`Wrote ${cards.length} flashcard${cards.length > 1 ? "s" : ""} to ${file.basename}`);
+}
+
+// Questions per note, from the view first and then from history, newest first
+function collectSources(plugin: DeepNotesPlugin, notePath?: string): ExportSource[] {
+	const byNote = new Map<string, DeepNotesItem[]>();
+	const add = (path: string, items: DeepNotesItem[]) => {
+		if (notePath && path !== notePath) return;
+		byNote.set(path, [...(byNote.get(path) ?? []), ...items]);
+	};
+
+	for (const [path, items] of getCachedItems()) {
+		add(path, items);
+	}
+	const sessions = notePath ? plugin.historyStore.forNote(notePath) : plugin.historyStore.all();
+	for (const session of sessions) {
+		add(session.notePath, session.items);
+	}
+
+	return [...byNote.entries()].map(([path, items]) => ({
+		notePath: path,
+		noteTitle: path.split("/").pop()!.replace(/\.md$/, ""),
+		items,
+		tags: noteTags(plugin.app, path),
+	}));
+}
+
+function noteTags(app: App, notePath: string): string[] {
+	const file = app.vault.getAbstractFileByPath(notePath);
+	const cache = file instanceof TFile ? app.metadataCache.getFileCache(file) : null;
+	const tags = cache ? getAllTags(cache) ?? [] : [];
+	return [...new Set(tags.map((tag) => tag.replace(/^#/, "")))];
+}
+
+async function exportPath(plugin: DeepNotesPlugin, fileName: string): Promise<string> {
+	const folder = normalizePath(plugin.settings.exportFolder || VAULT_DECK_NAME);
+	if (!(await plugin.app.vault.adapter.exists(folder))) {
+		await plugin.app.vault.createFolder(folder);
+	}
+	return normalizePath(`${folder}/${fileName.replace(/[\\/:*?"<>|]/g, "-")}`);
+}
@@ -0,0 +1,250 @@
+/**
+ * Writes a fresh SQLite database file in memory. Only what an export needs:
+ * rowid tables bulk-loaded in rowid order, no indexes and no free pages.
+ */
+
+export type SqlValue = number | string | null;
+
+export interface SqlTable {
+	name: string;
+	// CREATE TABLE statement stored in sqlite_schema
+	sql: string;
+	// Rows sorted by ascending rowid; an INTEGER PRIMARY KEY column holds null
+	rows: { rowid: number; values: SqlValue[] }[];
+}
+
+const PAGE_SIZE = 4096;
+const FILE_HEADER_SIZE = 100;
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+// Largest payload kept on a leaf page and the minimum local part of a larger one
+const MAX_LOCAL = PAGE_SIZE - 35;
+const MIN_LOCAL = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+
+const encoder = new TextEncoder();
+
+export function writeDatabase(tables: SqlTable[]): Uint8Array {
+	const pages: Uint8Array[] = [];
+	// Page 1 holds the file header and the schema table, written last
+	pages.push(new Uint8Array(PAGE_SIZE));
+
+	const schemaRows = tables.map((table, i) => {
+		const rootPage = writeTree(pages, table.rows.map((row) => ({ rowid: row.rowid, payload: encodeRecord(row.values) })));
+		return { rowid: i + 1, values: ["table", table.name, table.name, rootPage, table.sql] as SqlValue[] };
+	});
+
+	const schemaCells = schemaRows.map((row) => leafCell(pages, row.rowid, encodeRecord(row.values)));
+	if (!fits(schemaCells, FILE_HEADER_SIZE + 8)) {
+		throw new Error("Database schema does not fit on the first page.");
+	}
+	writePage(pages[0], LEAF_TABLE_PAGE, schemaCells, FILE_HEADER_SIZE);
+	writeFileHeader(pages[0], pages.length);
+
+	const file = new Uint8Array(pages.length * PAGE_SIZE);
+	pages.forEach((page, i) => file.set(page, i * PAGE_SIZE));
+	return file;
+}
+
+function writeFileHeader(page: Uint8Array, pageCount: number): void {
+	const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+	page.set(encoder.encode("SQLite format 3\0"), 0);
+	view.setUint16(16, PAGE_SIZE);
+	page[18] = 1; // legacy write version
+	page[19] = 1; // legacy read version
+	page[21] = 64; // max embedded payload fraction
+	page[22] = 32; // min embedded payload fraction
+	page[23] = 32; // leaf payload fraction
+	view.setUint32(24, 1); // file change counter
+	view.setUint32(28, pageCount);
+	view.setUint32(40, 1); // schema cookie
+	view.setUint32(44, 4); // schema format
+	view.setUint32(56, 1); // UTF-8
+	view.setUint32(92, 1); // version-valid-for, matches the change counter
+	view.setUint32(96, 3040001);
+}
+
+// Bulk-loads a table b-tree and returns its root page number
+function writeTree(pages: Uint8Array[], rows: { rowid: number; payload: Uint8Array }[]): number {
+	// Each level is a list of (page, largest rowid in that subtree)
+	let level: { page: number; maxRowid: number }[] = [];
+
+	let cells: Uint8Array[] = [];
+	let lastRowid = 0;
+	for (const row of rows) {
+		const cell = leafCell(pages, row.rowid, row.payload);
+		if (cells.length > 0 && !fits([...cells, cell], 8)) {
+			level.push({ page: addPage(pages, LEAF_TABLE_PAGE, cells), maxRowid: lastRowid });
+			cells = [];
+		}
+		cells.push(cell);
+		lastRowid = row.rowid;
+	}
+	if (cells.length > 0 || level.length === 0) {
+		level.push({ page: addPage(pages, LEAF_TABLE_PAGE, cells), maxRowid: lastRowid });
+	}
+
+	// Interior pages point at up to N children: N - 1 cells plus the right-most pointer
+	while (level.length > 1) {
+		const groups: { page: number; maxRowid: number }[][] = [[]];
+		for (const child of level) {
+			const group = groups[groups.length - 1];
+			if (group.length > 0 && !fits(group.map((c) => interiorCell(c.page, c.maxRowid)), 12)) {
+				groups.push([child]);
+			} else {
+				group.push(child);
+			}
+		}
+		// An interior page needs at least one cell besides the right-most pointer
+		const last = groups[groups.length - 1];
+		if (groups.length > 1 && last.length === 1) {
+			last.unshift(groups[groups.length - 2].pop()!);
+		}
+
+		level = groups.map((group) => {
+			const right = group[group.length - 1];
+			const interiorCells = group.slice(0, -1).map((c) => interiorCell(c.page, c.maxRowid));
+			return { page: addPage(pages, INTERIOR_TABLE_PAGE, interiorCells, right.page), maxRowid: right.maxRowid };
+		});
+	}
+	return level[0].page;
+}
+
+function fits(cells: Uint8Array[], headerSize: number): boolean {
+	let used = headerSize;
+	for (const cell of cells) used += cell.length + 2;
+	return used <= PAGE_SIZE;
+}
+
+function addPage(pages: Uint8Array[], type: number, cells: Uint8Array[], rightChild?: number): number {
+	const page = new Uint8Array(PAGE_SIZE);
+	writePage(page, type, cells, 0, rightChild);
+	pages.push(page);
+	return pages.length;
+}
+
+// Lays out a b-tree page: header and cell pointers at the start, cell contents packed at the end
+function writePage(page: Uint8Array, type: number, cells: Uint8Array[], offset: number, rightChild?: number): void {
+	const view = new DataView(page.buffer, page.byteOffset, page.byteLength);
+	const headerSize = type === INTERIOR_TABLE_PAGE ? 12 : 8;
+	let contentStart = PAGE_SIZE;
+	cells.forEach((cell, i) => {
+		contentStart -= cell.length;
+		page.set(cell, contentStart);
+		view.setUint16(offset + headerSize + i * 2, contentStart);
+	});
+
+	page[offset] = type;
+	view.setUint16(offset + 3, cells.length);
+	view.setUint16(offset + 5, contentStart);
+	if (type === INTERIOR_TABLE_PAGE) {
+		view.setUint32(offset + 8, rightChild ?? 0);
+	}
+}
+
+// A leaf cell; payloads too large for the page spill into a chain of overflow pages
+function leafCell(pages: Uint8Array[], rowid: number, payload: Uint8Array): Uint8Array {
+	let local = payload.length;
+	if (payload.length > MAX_LOCAL) {
+		const surplus = MIN_LOCAL + ((payload.length - MIN_LOCAL) % (PAGE_SIZE - 4));
+		local = surplus <= MAX_LOCAL ? surplus : MIN_LOCAL;
+	}
+
+	const parts = [varint(payload.length), varint(rowid), payload.subarray(0, local)];
+	if (local < payload.length) {
+		const pointer = new Uint8Array(4);
+		new DataView(pointer.buffer).setUint32(0, writeOverflow(pages, payload.subarray(local)));
+		parts.push(pointer);
+	}
+	return concat(parts);
+}
+
+// Returns the first page of the chain; each page starts with the number of the next one
+function writeOverflow(pages: Uint8Array[], data: Uint8Array): number {
+	const chunk = PAGE_SIZE - 4;
+	const first = pages.length + 1;
+	for (let start = 0; start < data.length; start += chunk) {
+		const page = new Uint8Array(PAGE_SIZE);
+		const end = Math.min(start + chunk, data.length);
+		page.set(data.subarray(start, end), 4);
+		pages.push(page);
+		if (end < data.length) {
+			new DataView(page.buffer).setUint32(0, pages.length + 1);
+		}
+	}
+	return first;
+}
+
+function interiorCell(childPage: number, maxRowid: number): Uint8Array {
+	const pointer = new Uint8Array(4);
+	new DataView(pointer.buffer).setUint32(0, childPage);
+	return concat([pointer, varint(maxRowid)]);
+}
+
+// Record format: header of serial types, then the values
+function encodeRecord(values: SqlValue[]): Uint8Array {
+	const types: number[] = [];
+	const bodies: Uint8Array[] = [];
+	for (const value of values) {
+		if (value === null) {
+			types.push(0);
+		} else if (typeof value === "string") {
+			const bytes = encoder.encode(value);
+			types.push(13 + bytes.length * 2);
+			bodies.push(bytes);
+		} else if (value === 0 || value === 1) {
+			types.push(value === 0 ? 8 : 9);
+		} else {
+			const [type, bytes] = encodeInteger(value);
+			types.push(type);
+			bodies.push(bytes);
+		}
+	}
+
+	const typeBytes = concat(types.map(varint));
+	// The header size counts its own varint
+	let headerSize = typeBytes.length + 1;
+	if (varint(headerSize).length > 1) headerSize++;
+	return concat([varint(headerSize), typeBytes, ...bodies]);
+}
+
+// Big-endian two's complement integer in the smallest serial type that holds it
+function encodeInteger(value: number): [number, Uint8Array] {
+	if (!Number.isSafeInteger(value)) {
+		throw new Error(`Cannot store ${value} as an integer.`);
+	}
+	const sizes: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6], [6, 8]];
+	for (const [type, size] of sizes) {
+		const limit = Math.pow(2, size * 8 - 1);
+		if (value >= -limit && value < limit) {
+			const bytes = new Uint8Array(size);
+			let rest = value < 0 ? value + limit * 2 : value;
+			for (let i = size - 1; i >= 0; i--) {
+				bytes[i] = rest % 256;
+				rest = Math.floor(rest / 256);
+			}
+			return [type, bytes];
+		}
+	}
+	throw new Error(`Cannot store ${value} as an integer.`);
+}
+
+// SQLite varint: 7 bits per byte, most significant first (values below 2^56)
+function varint(value: number): Uint8Array {
+	const groups: number[] = [];
+	let rest = value;
+	do {
+		groups.unshift(rest % 128);
+		rest = Math.floor(rest / 128);
+	} while (rest > 0);
+	return Uint8Array.from(groups.map((g, i) => (i < groups.length - 1 ? g | 0x80 : g)));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
@@ -0,0 +1,43 @@
+import type { ExportCard } from "./cards";
+
+// Markers around the generated section, so writing again replaces it instead of appending
+const SECTION_START = "<!-- deep-notes:flashcards -->";
+const SECTION_END = "<!-- /deep-notes:flashcards -->";
+
+/**
+ * Cards in the Obsidian Spaced Repetition plugin's syntax: `question::answer`
+ * when both fit on one line, otherwise the question and answer separated by a
+ * line with a single `?`. A blank line ends each card.
+ */
+export function formatSrCards(cards: ExportCard[], deckTag: string): string {
+	const blocks = cards.map((card) => {
+		const front = compactLines(card.front);
+		const back = compactLines(card.back);
+		if (!front.includes("\n") && !back.includes("\n") && !front.includes("::") && !back.includes("::")) {
+			return `${front}::${back}`;
+		}
+		return `${front}\n?\n${back}`;
+	});
+	return [`#${deckTag.replace(/^#/, "")}`, ...blocks].join("\n\n");
+}
+
+// Replaces the flashcard section of a note, or appends it at the end
+export function upsertSrSection(content: string, cards: string): string {
+	// Blank lines keep the markers out of the first and last card
+	const section = `${SECTION_START}\n\n${cards}\n\n${SECTION_END}`;
+	const start = content.indexOf(SECTION_START);
+	const end = content.indexOf(SECTION_END);
+	if (start >= 0 && end > start) {
+		return content.slice(0, start) + section + content.slice(end + SECTION_END.length);
+	}
+	return `${content.replace(/\s*$/, "")}\n\n${section}\n`;
+}
+
+// Blank lines would end a card early, and a lone "?" line would split it again
+function compactLines(text: string): string {
+	return text
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line.length > 0 && line !== "?")
+		.join("\n");
+}
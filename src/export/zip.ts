@@ -0,0 +1,93 @@
+/**
+ * Builds a ZIP archive with stored (uncompressed) entries, enough for the
+ * package formats export writes.
+ */
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function zipStored(entries: ZipEntry[], date = new Date()): Uint8Array {
+	const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+	const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+
+	const locals: Uint8Array[] = [];
+	const centrals: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const crc = crc32(entry.data);
+
+		const local = new Uint8Array(30 + name.length);
+		const lv = new DataView(local.buffer);
+		lv.setUint32(0, 0x04034b50, true);
+		lv.setUint16(4, 20, true); // version needed
+		lv.setUint16(10, time, true);
+		lv.setUint16(12, day, true);
+		lv.setUint32(14, crc, true);
+		lv.setUint32(18, entry.data.length, true);
+		lv.setUint32(22, entry.data.length, true);
+		lv.setUint16(26, name.length, true);
+		local.set(name, 30);
+
+		const central = new Uint8Array(46 + name.length);
+		const cv = new DataView(central.buffer);
+		cv.setUint32(0, 0x02014b50, true);
+		cv.setUint16(4, 20, true); // version made by
+		cv.setUint16(6, 20, true); // version needed
+		cv.setUint16(12, time, true);
+		cv.setUint16(14, day, true);
+		cv.setUint32(16, crc, true);
+		cv.setUint32(20, entry.data.length, true);
+		cv.setUint32(24, entry.data.length, true);
+		cv.setUint16(28, name.length, true);
+		cv.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		locals.push(local, entry.data);
+		centrals.push(central);
+		offset += local.length + entry.data.length;
+	}
+
+	const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+	const end = new Uint8Array(22);
+	const ev = new DataView(end.buffer);
+	ev.setUint32(0, 0x06054b50, true);
+	ev.setUint16(8, entries.length, true);
+	ev.setUint16(10, entries.length, true);
+	ev.setUint32(12, centralSize, true);
+	ev.setUint32(16, offset, true);
+
+	const parts = [...locals, ...centrals, end];
+	const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		out.set(part, position);
+		position += part.length;
+	}
+	return out;
+}
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
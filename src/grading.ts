@@ -0,0 +1,196 @@
+import type { ConceptCoverage, DeepNotesItem, EvaluationFeedback } from "./ai";
+import type { JsonSchema } from "./providers";
+import type { SimilarityThresholds } from "./calibration";
+
+export type GradingMode = "similarity" | "judge" | "hybrid";
+
+export type Rating = EvaluationFeedback["rating"];
+
+export const GRADING_MODES: { value: GradingMode; label: string }[] = [
+	{ value: "similarity", label: "Similarity (embeddings only)" },
+	{ value: "judge", label: "AI judge" },
+	{ value: "hybrid", label: "Hybrid (AI judge + similarity)" },
+];
+
+const RATINGS: Rating[] = ["correct", "partial", "incorrect"];
+
+// Score range of each rating in the grading rubric
+const RATING_BANDS: Record<Rating, [number, number]> = {
+	correct: [85, 100],
+	partial: [40, 84],
+	incorrect: [0, 39],
+};
+
+// Share of a hybrid score that comes from the judge; similarity only nudges it
+export const HYBRID_JUDGE_WEIGHT = 0.7;
+
+export interface JudgeGrade {
+	rating: Rating;
+	score: number;
+	explanation: string;
+	missingConcepts: string[];
+	// 0-based indexes into the item's key concepts; missing if the judge did not report coverage
+	coveredPoints?: number[];
+}
+
+export interface JudgeEntry {
+	item: DeepNotesItem;
+	response: string;
+}
+
+export const GRADING_RESPONSE_SCHEMA: JsonSchema = {
+	type: "object",
+	properties: {
+		grades: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					index: { type: "integer", description: "Number of the graded answer, starting at 1." },
+					rating: { type: "string", enum: RATINGS },
+					score: { type: "integer", description: "0-100, within the rating's range." },
+					explanation: { type: "string", description: "Why the answer earned this rating." },
+					missing_concepts: { type: "array", items: { type: "string" }, description: "Key concepts left out or wrong." },
+					covered_points: { type: "array", items: { type: "integer" }, description: "Numbers of the key points the answer covers." },
+				},
+				required: ["index", "rating", "score", "explanation", "missing_concepts", "covered_points"],
+			},
+		},
+	},
+	required: ["grades"],
+};
+
+// Numbered answer blocks for the {{answers}} prompt variable
+export function formatAnswersForJudge(entries: JudgeEntry[]): string {
+	return entries.map(({ item, response }, i) => [
+		`### Answer ${i + 1}`,
+		`Question: ${item.text}`,
+		`Ideal answer: ${item.sampleAnswer || "N/A"}`,
+		item.keyConcepts ? `Key points:\n${item.keyConcepts.map((c, k) => `${k + 1}. ${c}`).join("\n")}` : "",
+		item.sourceExcerpt ? `Source excerpt: "${item.sourceExcerpt}"` : "",
+		`Student's answer: ${response.trim()}`,
+	].filter(Boolean).join("\n")).join("\n\n");
+}
+
+/**
+ * Reads the judge's reply into grades keyed by the 0-based position of the answer.
+ * Unusable grades are dropped; those answers fall back to similarity.
+ */
+export function validateGrades(parsed: unknown, count: number): Map<number, JudgeGrade> {
+	let entries: unknown;
+	if (Array.isArray(parsed)) {
+		entries = parsed;
+	} else if (parsed && typeof parsed === "object") {
+		entries = (parsed as Record<string, unknown>).grades;
+	}
+
+	const grades = new Map<number, JudgeGrade>();
+	if (!Array.isArray(entries)) return grades;
+
+	entries.forEach((entry, i) => {
+		if (!entry || typeof entry !== "object") return;
+		const raw = entry as Record<string, unknown>;
+
+		const index = (typeof raw.index === "number" ? raw.index : i + 1) - 1;
+		if (!Number.isInteger(index) || index < 0 || index >= count || grades.has(index)) return;
+
+		const rating = RATINGS.includes(raw.rating as Rating) ? (raw.rating as Rating) : null;
+		const score = typeof raw.score === "number" && isFinite(raw.score) ? Math.round(raw.score) : null;
+		if (rating === null && score === null) return;
+
+		// Keep the score inside the rating's band so the two never disagree
+		const finalRating = rating ?? ratingForScore(score!);
+		const coveredPoints = Array.isArray(raw.covered_points)
+			? raw.covered_points.filter((p): p is number => Number.isInteger(p) && p >= 1).map((p) => p - 1)
+			: undefined;
+		const [min, max] = RATING_BANDS[finalRating];
+		grades.set(index, {
+			rating: finalRating,
+			score: score === null ? (finalRating === "incorrect" ? min : max) : Math.min(max, Math.max(min, score)),
+			explanation: typeof raw.explanation === "string" ? raw.explanation.trim() : "",
+			missingConcepts: Array.isArray(raw.missing_concepts)
+				? raw.missing_concepts.filter((c): c is string => typeof c === "string" && c.trim() !== "").map((c) => c.trim())
+				: [],
+			coveredPoints,
+		});
+	});
+	return grades;
+}
+
+// Mostly the judge's score, nudged by similarity; the rating follows the blended score
+export function combineGrades(judge: JudgeGrade, similarityPercent: number): JudgeGrade {
+	const score = Math.round(HYBRID_JUDGE_WEIGHT * judge.score + (1 - HYBRID_JUDGE_WEIGHT) * similarityPercent);
+	return { ...judge, score, rating: ratingForScore(score) };
+}
+
+// Coverage of the item's key concepts: the judge's verdict when it gave one, otherwise a word match
+export function conceptCoverage(item: DeepNotesItem, response: string, judge?: JudgeGrade): ConceptCoverage[] {
+	const concepts = item.keyConcepts ?? [];
+	if (judge?.coveredPoints) {
+		return concepts.map((concept, k) => ({ concept, covered: judge.coveredPoints!.includes(k) }));
+	}
+	const answerWords = contentWords(response);
+	return concepts.map((concept) => ({ concept, covered: mentionsConcept(concept, answerWords, response) }));
+}
+
+export function coveragePercent(coverage: ConceptCoverage[]): number {
+	return coverage.length > 0 ? Math.round((coverage.filter((c) => c.covered).length / coverage.length) * 100) : 0;
+}
+
+const STOP_WORDS = new Set([
+	"the", "and", "for", "are", "but", "not", "with", "that", "this", "from", "into", "its", "than", "then",
+	"was", "were", "has", "have", "can", "does", "how", "why", "what", "when", "which", "who", "all", "any",
+	"each", "more", "most", "only", "other", "such", "their", "them", "they", "there", "these", "those", "via",
+]);
+
+function contentWords(text: string): string[] {
+	return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((w) => w.length >= 3 && !STOP_WORDS.has(w));
+}
+
+/**
+ * A concept counts as mentioned when most of its content words appear in the answer.
+ * Words match on a shared prefix so "measures" covers "measurement".
+ */
+function mentionsConcept(concept: string, answerWords: string[], response: string): boolean {
+	const words = contentWords(concept);
+	if (words.length === 0) {
+		return response.toLowerCase().includes(concept.toLowerCase());
+	}
+	const stem = (w: string) => w.slice(0, 5);
+	const answerStems = new Set(answerWords.map(stem));
+	const found = words.filter((w) => answerStems.has(stem(w))).length;
+	return found / words.length >= 0.6;
+}
+
+// Bands from the grading rubric, for judges that return only a score
+export function ratingForScore(score: number): Rating {
+	return RATINGS.find((r) => score >= RATING_BANDS[r][0]) ?? "incorrect";
+}
+
+export function ratingForSimilarity(similarity: number, thresholds: SimilarityThresholds): Rating {
+	return similarity >= thresholds.correct ? "correct" : similarity >= thresholds.partial ? "partial" : "incorrect";
+}
+
+/**
+ * Similarity as a 0-100 score on the rubric's scale: the model's calibrated thresholds
+ * land on the lower ends of the "partial" and "correct" bands, with linear steps between,
+ * so the score's rating always agrees with ratingForSimilarity.
+ */
+export function calibratedSimilarityScore(similarity: number, thresholds: SimilarityThresholds): number {
+	const points: [number, number][] = [
+		[0, 0],
+		[thresholds.partial, RATING_BANDS.partial[0]],
+		[thresholds.correct, RATING_BANDS.correct[0]],
+		[1, 100],
+	];
+	const s = Math.min(1, Math.max(0, similarity));
+	for (let i = 1; i < points.length; i++) {
+		const [x0, y0] = points[i - 1];
+		const [x1, y1] = points[i];
+		if (s < x1 || i === points.length - 1) {
+			// Round down so a similarity just under a threshold never reaches the band above
+			return x1 > x0 ? Math.floor(y0 + ((s - x0) / (x1 - x0)) * (y1 - y0)) : y1;
+		}
+	}
+	return 100;
+}
@@ -1,5 +1,7 @@
+import type { DataAdapter } from "obsidian";
 import type { DeepNotesItem, EvaluationResult } from "./ai";
 import type DeepNotesPlugin from "./main";
+import { hash64 } from "./hash";
 
 export interface QASession {
     id: string;
@@ -11,39 +13,151 @@ export interface QASession {
     evaluation?: EvaluationResult;
 }
 
-const MAX_SESSIONS = 50;
+interface NoteHistoryFile {
+    notePath: string;
+    sessions: QASession[];
+}
+
+/**
+ * Sessions kept in one JSON file per note under the plugin's history/ folder, so
+ * saving a session rewrites only that note's file. Embeddings are not stored;
+ * evaluation recomputes them when needed.
+ */
+export class HistoryStore {
+    // Newest first per note
+    private sessions = new Map<string, QASession[]>();
+    // File holding each note's sessions; files written by older versions are named by a shorter hash
+    private files = new Map<string, string>();
+
+    constructor(private adapter: DataAdapter, private dir: string) {}
+
+    async load(): Promise<void> {
+        if (!(await this.adapter.exists(this.dir))) return;
+        const { files } = await this.adapter.list(this.dir);
+        for (const path of files.filter((f) => f.endsWith(".json"))) {
+            try {
+                const data = JSON.parse(await this.adapter.read(path)) as NoteHistoryFile;
+                this.sessions.set(data.notePath, data.sessions ?? []);
+                this.files.set(data.notePath, path);
+            } catch (e) {
+                console.error(`Deep Notes: Could not read history file ${path}`, e);
+            }
+        }
+    }
+
+    forNote(notePath: string): QASession[] {
+        return this.sessions.get(notePath) ?? [];
+    }
+
+    all(): QASession[] {
+        const all: QASession[] = [];
+        for (const sessions of this.sessions.values()) {
+            all.push(...sessions);
+        }
+        return all.sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    async add(session: QASession): Promise<void> {
+        const stored = withoutEmbeddings(session);
+        this.sessions.set(stored.notePath, [stored, ...this.forNote(stored.notePath)]);
+        await this.writeNote(stored.notePath);
+    }
+
+    async remove(id: string): Promise<void> {
+        for (const [notePath, sessions] of this.sessions) {
+            if (sessions.some((s) => s.id === id)) {
+                this.sessions.set(notePath, sessions.filter((s) => s.id !== id));
+                await this.writeNote(notePath);
+                return;
+            }
+        }
+    }
+
+    // Moves a renamed note's sessions to its new path, merging with any already there
+    async renameNote(oldPath: string, newPath: string, newTitle: string): Promise<void> {
+        const moved = this.forNote(oldPath);
+        if (moved.length === 0) return;
+        const renamed = moved.map((s) => ({ ...s, notePath: newPath, noteTitle: newTitle }));
+        this.sessions.set(newPath, [...renamed, ...this.forNote(newPath)].sort((a, b) => b.timestamp - a.timestamp));
+        this.sessions.set(oldPath, []);
+        await this.writeNote(newPath);
+        await this.writeNote(oldPath);
+    }
+
+    // Moves sessions saved in data.json by older versions into the store
+    async importLegacy(sessions: QASession[]): Promise<void> {
+        const touched = new Set<string>();
+        for (const session of sessions) {
+            const existing = this.forNote(session.notePath);
+            if (existing.some((s) => s.id === session.id)) continue;
+            const merged = [...existing, withoutEmbeddings(session)].sort((a, b) => b.timestamp - a.timestamp);
+            this.sessions.set(session.notePath, merged);
+            touched.add(session.notePath);
+        }
+        for (const notePath of touched) {
+            await this.writeNote(notePath);
+        }
+    }
+
+    private async writeNote(notePath: string): Promise<void> {
+        const path = `${this.dir}/${hash64(notePath)}.json`;
+        const previous = this.files.get(notePath);
+        const sessions = this.forNote(notePath);
+        if (sessions.length === 0) {
+            this.sessions.delete(notePath);
+            this.files.delete(notePath);
+            for (const stale of new Set([path, previous ?? path])) {
+                if (await this.adapter.exists(stale)) {
+                    await this.adapter.remove(stale);
+                }
+            }
+            return;
+        }
+
+        if (!(await this.adapter.exists(this.dir))) {
+            await this.adapter.mkdir(this.dir);
+        }
+        const data: NoteHistoryFile = { notePath, sessions };
+        await this.adapter.write(path, JSON.stringify(data));
+        this.files.set(notePath, path);
+        // Files named by the older 32-bit hash move to the new name when next written
+        if (previous && previous !== path && (await this.adapter.exists(previous))) {
+            await this.adapter.remove(previous);
+        }
+    }
+}
+
+// Items in the order they were evaluated: each item followed by its follow-ups
+export function flattenItems(items: DeepNotesItem[]): DeepNotesItem[] {
+    const flat: DeepNotesItem[] = [];
+    for (const item of items) {
+        flat.push(item, ...flattenItems(item.subItems ?? []));
+    }
+    return flat;
+}
+
+// Deep copy without sample-answer embeddings, which make up most of a session's size
+function withoutEmbeddings(session: QASession): QASession {
+    return JSON.parse(JSON.stringify(session, (key, value) => (key === "sampleAnswerEmbedding" ? undefined : value)));
+}
 
 export async function saveSession(
     plugin: DeepNotesPlugin,
     session: QASession
 ): Promise<void> {
-    const history = plugin.settings.history ?? [];
-    history.unshift(session);
-
-    // Cap at MAX_SESSIONS
-    if (history.length > MAX_SESSIONS) {
-        history.length = MAX_SESSIONS;
-    }
-
-    plugin.settings.history = history;
-    await plugin.saveSettings();
+    await plugin.historyStore.add(session);
 }
 
 export function getSessionsForNote(
     plugin: DeepNotesPlugin,
     notePath: string
 ): QASession[] {
-    return (plugin.settings.history ?? []).filter(
-        (s) => s.notePath === notePath
-    );
+    return plugin.historyStore.forNote(notePath);
 }
 
 export async function deleteSession(
     plugin: DeepNotesPlugin,
     id: string
 ): Promise<void> {
-    plugin.settings.history = (plugin.settings.history ?? []).filter(
-        (s) => s.id !== id
-    );
-    await plugin.saveSettings();
+    await plugin.historyStore.remove(id);
 }
@@ -0,0 +1,393 @@
+import { Notice, TFile } from "obsidian";
+import type DeepNotesPlugin from "./main";
+import { isAbortError } from "./abort";
+import { describeError, ProviderError, ProviderErrorKind } from "./providers";
+
+export interface IndexError {
+    filePath: string;
+    message: string;
+    time: number;
+}
+
+// One pass of work: from the first note queued while idle until the queue is empty
+export interface IndexRun {
+    total: number;
+    done: number;
+    failed: number;
+    // Time spent with notes in progress, for the ETA
+    activeMs: number;
+}
+
+export interface IndexQueueState {
+    status: "idle" | "running" | "paused";
+    pauseReason: string | null;
+    pending: number;
+    active: string[];
+    run: IndexRun | null;
+    // Estimated ms until the queue is empty; null until a few notes are done
+    etaMs: number | null;
+    errors: IndexError[];
+}
+
+interface IndexQueueData {
+    version: number;
+    paused: boolean;
+    pending: string[];
+    errors: IndexError[];
+    run: IndexRun | null;
+}
+
+const QUEUE_VERSION = 1;
+// Errors that pause the queue instead of failing the note: every remaining note would fail the same way
+const PAUSING_ERROR_KINDS: ProviderErrorKind[] = ["auth", "quota", "model-missing", "network"];
+// Notes edited more recently than this wait until the edits settle
+const EDIT_QUIET_MS = 10000;
+// A quota pause ends by itself after the provider's Retry-After, or this long
+const QUOTA_PAUSE_MS = 60000;
+const MIN_DONE_FOR_ETA = 3;
+const MAX_ERRORS = 200;
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Notes waiting to be embedded, worked through in the background a few at a
+ * time. The queue, pause state and errors are saved, so a large vault can
+ * finish indexing over several sessions.
+ */
+export class IndexQueue {
+    private pending: string[] = [];
+    // Notes being indexed, with a promise that settles when they are done
+    private active = new Map<string, { controller: AbortController; done: Promise<void> }>();
+    private paused = false;
+    private pauseReason: string | null = null;
+    private errors: IndexError[] = [];
+    private run: IndexRun | null = null;
+    // Start of the current stretch with notes in progress
+    private activeSince: number | null = null;
+    private listeners = new Set<() => void>();
+    private saveTimer: number | null = null;
+    private wakeTimer: number | null = null;
+    private resumeTimer: number | null = null;
+    // Set on unload; nothing starts or saves afterwards
+    private closed = false;
+
+    constructor(
+        private plugin: DeepNotesPlugin,
+        private path: string,
+        private indexFile: (file: TFile, signal: AbortSignal) => Promise<void>
+    ) {}
+
+    async load(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        if (!(await adapter.exists(this.path))) return;
+        try {
+            const data = JSON.parse(await adapter.read(this.path)) as IndexQueueData;
+            this.pending = data.pending ?? [];
+            this.paused = data.paused ?? false;
+            this.errors = data.errors ?? [];
+            this.run = this.pending.length > 0 ? data.run ?? null : null;
+        } catch (e) {
+            console.error("Deep Notes: Could not read index queue", e);
+        }
+    }
+
+    // Picks up notes left from the last session
+    start(): void {
+        this.pump();
+    }
+
+    enqueue(filePaths: string[]): void {
+        const queued = new Set(this.pending);
+        const added: string[] = [];
+        for (const filePath of filePaths) {
+            if (queued.has(filePath)) continue;
+            queued.add(filePath);
+            added.push(filePath);
+        }
+        if (added.length === 0) return;
+
+        if (!this.run) {
+            this.run = { total: 0, done: 0, failed: 0, activeMs: 0 };
+        }
+        this.run.total += added.length;
+        this.pending.push(...added);
+        this.pump();
+    }
+
+    // Moves a queued note to the front, e.g. when it is opened
+    prioritize(filePath: string): void {
+        const index = this.pending.indexOf(filePath);
+        if (index <= 0) return;
+        this.pending.splice(index, 1);
+        this.pending.unshift(filePath);
+        this.changed();
+    }
+
+    // Drops a deleted note from the queue
+    remove(filePath: string): void {
+        this.active.get(filePath)?.controller.abort();
+        if (this.dequeue(filePath)) {
+            this.changed();
+        }
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        // A job still running for the old path would write its chunks under it; index the new path instead
+        const running = this.active.get(oldPath);
+        if (running) {
+            running.controller.abort();
+            this.enqueue([newPath]);
+            this.prioritize(newPath);
+            return;
+        }
+        const index = this.pending.indexOf(oldPath);
+        if (index < 0) return;
+        this.pending[index] = newPath;
+        this.changed();
+    }
+
+    // Notes in progress finish; no new ones start
+    pause(reason: string | null = null): void {
+        this.paused = true;
+        this.pauseReason = reason;
+        this.clearTimer("resumeTimer");
+        this.changed();
+    }
+
+    resume(): void {
+        this.paused = false;
+        this.pauseReason = null;
+        this.clearTimer("resumeTimer");
+        this.pump();
+    }
+
+    retryFailed(): void {
+        const failed = this.errors.map((e) => e.filePath);
+        this.errors = [];
+        this.enqueue(failed);
+        this.changed();
+    }
+
+    clearErrors(): void {
+        this.errors = [];
+        this.changed();
+    }
+
+    /**
+     * Indexes a note right away, e.g. before generating questions for it. If the
+     * queue is already indexing it, waits for that instead of indexing it twice.
+     */
+    async indexNow(file: TFile, signal?: AbortSignal): Promise<void> {
+        // Obsidian renames a TFile in place, so keep the path the job is tracked under
+        const filePath = file.path;
+        const running = this.active.get(filePath);
+        if (running) {
+            await running.done;
+            return;
+        }
+        if (this.dequeue(filePath)) {
+            this.changed();
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        if (signal?.aborted) controller.abort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        const indexing = this.indexFile(file, controller.signal);
+        this.active.set(filePath, { controller, done: indexing.catch(() => undefined) });
+        try {
+            await indexing;
+        } finally {
+            signal?.removeEventListener("abort", onAbort);
+            this.active.delete(filePath);
+            this.pump();
+        }
+    }
+
+    // Returns a function that stops listening
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getState(): IndexQueueState {
+        const run = this.run ? { ...this.run, activeMs: this.activeMs() } : null;
+        const remaining = this.pending.length + this.active.size;
+        return {
+            status: this.paused ? "paused" : remaining > 0 ? "running" : "idle",
+            pauseReason: this.pauseReason,
+            pending: this.pending.length,
+            active: [...this.active.keys()],
+            run,
+            etaMs: run && run.done >= MIN_DONE_FOR_ETA ? (run.activeMs / run.done) * remaining : null,
+            errors: this.errors,
+        };
+    }
+
+    // Stops work in progress and saves the queue, with unfinished notes first
+    async close(): Promise<void> {
+        this.closed = true;
+        this.clearTimer("wakeTimer");
+        this.clearTimer("resumeTimer");
+        this.clearTimer("saveTimer");
+        const unfinished = [...this.active.keys()];
+        for (const { controller } of this.active.values()) {
+            controller.abort();
+        }
+        await this.save([...unfinished, ...this.pending.filter((p) => !unfinished.includes(p))]);
+    }
+
+    // Starts queued notes up to the concurrency limit, skipping notes that are being edited
+    private pump(): void {
+        if (this.closed) return;
+        this.clearTimer("wakeTimer");
+        if (!this.paused) {
+            const limit = Math.max(1, this.plugin.settings.indexConcurrency);
+            const now = Date.now();
+            let wakeAt = Infinity;
+            for (let i = 0; i < this.pending.length && this.active.size < limit; ) {
+                const filePath = this.pending[i];
+                const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+                if (!(file instanceof TFile)) {
+                    // Deleted or renamed while queued
+                    this.pending.splice(i, 1);
+                    if (this.run) this.run.total--;
+                    continue;
+                }
+                const readyAt = file.stat.mtime + EDIT_QUIET_MS;
+                if (this.active.has(filePath) || readyAt > now) {
+                    if (!this.active.has(filePath)) wakeAt = Math.min(wakeAt, readyAt);
+                    i++;
+                    continue;
+                }
+                this.pending.splice(i, 1);
+                this.startJob(file);
+            }
+            if (wakeAt < Infinity) {
+                this.wakeTimer = window.setTimeout(() => {
+                    this.wakeTimer = null;
+                    this.pump();
+                }, wakeAt - now);
+            }
+        }
+
+        if (this.active.size === 0 && this.activeSince !== null) {
+            if (this.run) this.run.activeMs += Date.now() - this.activeSince;
+            this.activeSince = null;
+        }
+        if (this.active.size === 0 && this.pending.length === 0 && this.run) {
+            this.finishRun(this.run);
+        }
+        this.changed();
+    }
+
+    private startJob(file: TFile): void {
+        // Obsidian renames a TFile in place, so keep the path the job is tracked under
+        const filePath = file.path;
+        const controller = new AbortController();
+        if (this.activeSince === null) {
+            this.activeSince = Date.now();
+        }
+        const done = this.indexFile(file, controller.signal).then(
+            () => {
+                if (this.run) this.run.done++;
+            },
+            (e) => this.handleError(filePath, e)
+        ).then(() => {
+            this.active.delete(filePath);
+            this.pump();
+        });
+        this.active.set(filePath, { controller, done });
+    }
+
+    private handleError(filePath: string, e: unknown): void {
+        // Aborted because the note was deleted or renamed, or the plugin is unloading
+        if (isAbortError(e)) {
+            if (this.run) this.run.total--;
+            return;
+        }
+
+        if (e instanceof ProviderError && PAUSING_ERROR_KINDS.includes(e.kind)) {
+            this.pending.unshift(filePath);
+            if (!this.paused) {
+                const message = describeError(e);
+                new Notice(`Indexing paused: ${message}`);
+                this.pause(message);
+                if (e.kind === "quota") {
+                    this.resumeTimer = window.setTimeout(() => {
+                        this.resumeTimer = null;
+                        this.resume();
+                    }, e.retryAfterMs ?? QUOTA_PAUSE_MS);
+                }
+            }
+            return;
+        }
+
+        if (this.run) {
+            this.run.done++;
+            this.run.failed++;
+        }
+        this.errors = [{ filePath, message: describeError(e), time: Date.now() }, ...this.errors.filter((err) => err.filePath !== filePath)].slice(0, MAX_ERRORS);
+    }
+
+    private finishRun(run: IndexRun): void {
+        this.run = null;
+        // Single notes re-indexed after an edit finish quietly
+        if (run.total <= 1) return;
+        const indexed = run.done - run.failed;
+        new Notice(
+            run.failed > 0
+                ? `Indexing finished: ${indexed} notes indexed, ${run.failed} failed. See "Show Indexing Progress" for details.`
+                : `Vault indexed! ${indexed} notes indexed.`
+        );
+    }
+
+    private dequeue(filePath: string): boolean {
+        const index = this.pending.indexOf(filePath);
+        if (index < 0) return false;
+        this.pending.splice(index, 1);
+        if (this.run) this.run.total--;
+        return true;
+    }
+
+    private activeMs(): number {
+        const current = this.activeSince !== null ? Date.now() - this.activeSince : 0;
+        return (this.run?.activeMs ?? 0) + current;
+    }
+
+    private changed(): void {
+        if (this.closed) return;
+        for (const listener of this.listeners) {
+            listener();
+        }
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        this.clearTimer("saveTimer");
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            // Notes in progress are saved as queued, in case Obsidian closes before they finish
+            const pending = [...this.active.keys(), ...this.pending.filter((p) => !this.active.has(p))];
+            this.save(pending).catch((e) => console.error("Deep Notes: Could not save index queue", e));
+        }, SAVE_DELAY_MS);
+    }
+
+    private async save(pending: string[]): Promise<void> {
+        const data: IndexQueueData = {
+            version: QUEUE_VERSION,
+            paused: this.paused,
+            pending,
+            errors: this.errors,
+            run: this.run ? { ...this.run, activeMs: this.activeMs() } : null,
+        };
+        await this.plugin.app.vault.adapter.write(this.path, JSON.stringify(data));
+    }
+
+    private clearTimer(timer: "saveTimer" | "wakeTimer" | "resumeTimer"): void {
+        const id = this[timer];
+        if (id !== null) {
+            window.clearTimeout(id);
+            this[timer] = null;
+        }
+    }
+}
@@ -0,0 +1,163 @@
+import { ItemView, WorkspaceLeaf, TFile, setIcon } from "obsidian";
+import { VIEW_TYPE_DEEP_NOTES_INDEX } from "./constants";
+import type { IndexQueueState } from "./indexQueue";
+import type DeepNotesPlugin from "./main";
+
+// "3 min", "1 h 20 min"; under a minute reads "<1 min"
+export function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / 60000);
+	if (minutes < 1) return "<1 min";
+	if (minutes < 60) return `${minutes} min`;
+	const hours = Math.floor(minutes / 60);
+	return minutes % 60 > 0 ? `${hours} h ${minutes % 60} min` : `${hours} h`;
+}
+
+// Short status for the status bar; empty when there is nothing to report
+export function describeIndexStatus(state: IndexQueueState): string {
+	const remaining = state.pending + state.active.length;
+	if (state.status === "paused") {
+		return `Indexing paused · ${remaining} left`;
+	}
+	if (state.status === "running" && state.run) {
+		const eta = state.etaMs !== null ? ` · ${formatDuration(state.etaMs)} left` : "";
+		return `Indexing ${state.run.done}/${state.run.total}${eta}`;
+	}
+	if (state.errors.length > 0) {
+		return `Index: ${state.errors.length} error${state.errors.length > 1 ? "s" : ""}`;
+	}
+	return "";
+}
+
+/**
+ * Progress of the background index queue: notes done and left, ETA, notes in
+ * progress and notes that failed, with pause/resume and retry.
+ */
+export class DeepNotesIndexView extends ItemView {
+	plugin: DeepNotesPlugin;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: DeepNotesPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_DEEP_NOTES_INDEX;
+	}
+
+	getDisplayText(): string {
+		return "Deep Notes Indexing";
+	}
+
+	getIcon(): string {
+		return "database";
+	}
+
+	async onOpen(): Promise<void> {
+		this.unsubscribe = this.plugin.indexQueue.onChange(() => this.render());
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+	}
+
+	render(): void {
+		const queue = this.plugin.indexQueue;
+		const state = queue.getState();
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("deep-notes-container", "deep-notes-index-panel");
+
+		const header = container.createDiv({ cls: "deep-notes-header deep-notes-review-header" });
+		header.createEl("h4", { text: "Vault Indexing" });
+
+		const status = container.createDiv({ cls: "deep-notes-index-panel-status" });
+		status.createSpan({
+			text: state.status === "paused" ? "Paused" : state.status === "running" ? "Indexing" : "Idle",
+			cls: `deep-notes-badge deep-notes-index-panel-${state.status}`,
+		});
+		if (state.pauseReason) {
+			status.createSpan({ text: state.pauseReason, cls: "deep-notes-dashboard-muted" });
+		}
+
+		if (state.run) {
+			const { done, total, failed } = state.run;
+			const progress = container.createDiv({ cls: "deep-notes-review-progress" });
+			progress.createSpan({ text: `${done} / ${total} notes`, cls: "deep-notes-review-position" });
+			if (failed > 0) progress.createSpan({ text: `${failed} failed` });
+			progress.createSpan({
+				text: state.etaMs !== null ? `About ${formatDuration(state.etaMs)} left` : "Estimating time left...",
+			});
+			const bar = container.createDiv({ cls: "deep-notes-review-bar" });
+			bar.createDiv({ cls: "deep-notes-review-bar-fill" }).style.width = `${total > 0 ? (done / total) * 100 : 0}%`;
+		} else if (state.status === "idle") {
+			container.createDiv({ cls: "deep-notes-dashboard-muted", text: "Nothing to index. Edited notes are queued automatically." });
+		}
+
+		const actions = container.createDiv({ cls: "deep-notes-btn-row" });
+		if (state.status === "paused") {
+			this.button(actions, "Resume", "play", () => queue.resume());
+		} else {
+			this.button(actions, "Pause", "pause", () => queue.pause());
+		}
+		this.button(actions, "Index Vault", "refresh-cw", () => this.plugin.indexer.indexVault());
+
+		if (state.active.length > 0) {
+			const section = this.section(container, "In progress");
+			for (const filePath of state.active) {
+				this.noteRow(section, filePath);
+			}
+		}
+		if (state.pending > 0) {
+			container.createDiv({
+				cls: "deep-notes-dashboard-muted",
+				text: `${state.pending} note${state.pending > 1 ? "s" : ""} queued. Notes being edited wait until the edits settle; the open note goes first.`,
+			});
+		}
+
+		if (state.errors.length > 0) {
+			const section = this.section(container, `Errors (${state.errors.length})`);
+			const errorActions = section.createDiv({ cls: "deep-notes-btn-row" });
+			this.button(errorActions, "Retry Failed", "rotate-ccw", () => queue.retryFailed());
+			this.button(errorActions, "Clear", "x", () => queue.clearErrors());
+			for (const error of state.errors) {
+				const row = this.noteRow(section, error.filePath);
+				row.addClass("deep-notes-index-panel-error");
+				row.createDiv({
+					text: error.message,
+					cls: "deep-notes-dashboard-muted",
+					attr: { "aria-label": new Date(error.time).toLocaleString() },
+				});
+			}
+		}
+	}
+
+	private section(container: HTMLElement, title: string): HTMLElement {
+		const section = container.createDiv({ cls: "deep-notes-dashboard-section" });
+		section.createEl("h5", { text: title, cls: "deep-notes-history-title" });
+		return section;
+	}
+
+	private button(container: HTMLElement, text: string, icon: string, onClick: () => void): void {
+		const btn = container.createEl("button", { cls: "deep-notes-generate-btn" });
+		setIcon(btn.createSpan({ cls: "deep-notes-btn-icon" }), icon);
+		btn.createSpan({ text });
+		btn.addEventListener("click", onClick);
+	}
+
+	private noteRow(container: HTMLElement, filePath: string): HTMLElement {
+		const row = container.createDiv({ cls: "deep-notes-index-panel-note" });
+		const link = row.createEl("a", { text: filePath, cls: "deep-notes-dashboard-label" });
+		link.addEventListener("click", () => this.openNote(filePath));
+		return row;
+	}
+
+	private async openNote(notePath: string): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		if (file instanceof TFile) {
+			await this.app.workspace.getLeaf("tab").openFile(file, { active: true });
+		}
+	}
+}
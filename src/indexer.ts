@@ -1,91 +1,98 @@
-import { Notice, TFile } from "obsidian";
+import { getAllTags, Notice, TFile } from "obsidian";
 import type DeepNotesPlugin from "./main";
-import { VaultVectorStore } from "./vectorStore";
+import { NoteMetadata, VaultVectorStore } from "./vectorStore";
 import { getEmbedding } from "./embeddings";
+import { describeError } from "./providers";
 
 export class VaultIndexer {
     private plugin: DeepNotesPlugin;
     private vectorStore: VaultVectorStore;
-    private indexing = false;
 
     constructor(plugin: DeepNotesPlugin, vectorStore: VaultVectorStore) {
         this.plugin = plugin;
         this.vectorStore = vectorStore;
     }
 
-    get isIndexing(): boolean {
-        return this.indexing;
-    }
-
+    /**
+     * Queues every note that is new or changed since it was indexed. The queue
+     * embeds them in the background; see the indexing panel for progress.
+     */
     async indexVault(): Promise<void> {
-        if (this.indexing) {
-            new Notice("Vault indexing is already in progress.");
-            return;
-        }
-
-        this.indexing = true;
-        const files = this.plugin.app.vault.getMarkdownFiles();
-        let indexed = 0;
-        let skipped = 0;
-        let failed = 0;
-
-        new Notice(`Indexing vault: ${files.length} notes found...`);
-
         try {
+            const files = this.plugin.app.vault.getMarkdownFiles();
+            const indexed = await this.vectorStore.indexedNotes();
+            const changed: string[] = [];
+            // Notes indexed by older versions get their metadata without new embeddings
+            const missingMetadata = new Map<string, NoteMetadata>();
             for (const file of files) {
-                const alreadyIndexed = await this.vectorStore.isIndexed(
-                    file.path,
-                    file.stat.mtime
-                );
-
-                if (alreadyIndexed) {
-                    skipped++;
-                    continue;
-                }
-
-                try {
-                    await this.indexSingleNote(file);
-                    indexed++;
-                } catch (e) {
-                    failed++;
-                    console.error(`[DeepNotes] Skipping ${file.path} due to error.`);
-                }
-
-                // Progress update every 10 notes
-                if ((indexed + failed) % 10 === 0) {
-                    new Notice(`Indexing... ${indexed + failed}/${files.length - skipped} notes`);
+                const entry = indexed.get(file.path);
+                if (!entry || entry.mtime !== file.stat.mtime) {
+                    changed.push(file.path);
+                } else if (entry.lacksMetadata) {
+                    missingMetadata.set(file.path, this.noteMetadata(file));
                 }
             }
-
-            if (failed > 0) {
-                new Notice(
-                    `Index complete with errors! ${indexed} success, ${failed} failed. Check console for details.`
-                );
-            } else {
-                new Notice(
-                    `Vault indexed! ${indexed} notes indexed, ${skipped} unchanged.`
-                );
+            if (missingMetadata.size > 0) {
+                await this.vectorStore.updateNoteMetadata(missingMetadata);
             }
-        } catch (e) {
+
+            const pruned = await this.pruneOrphans();
+            const prunedText = pruned.notes > 0 ? `, ${pruned.notes} missing removed` : "";
+            this.plugin.indexQueue.enqueue(changed);
             new Notice(
-                `Indexing error: ${e instanceof Error ? e.message : String(e)}`
+                changed.length > 0
+                    ? `Indexing ${changed.length} notes in the background (${files.length - changed.length} unchanged${prunedText}).`
+                    : `Vault index is up to date (${files.length} notes${prunedText}).`
             );
-        } finally {
-            this.indexing = false;
+        } catch (e) {
+            new Notice(`Indexing error: ${describeError(e)}`);
         }
     }
 
-    async indexSingleNote(file: TFile): Promise<void> {
+    async indexSingleNote(file: TFile, signal?: AbortSignal): Promise<void> {
         try {
             console.log(`[DeepNotes] Indexing: ${file.path}`);
             const content = await this.plugin.app.vault.read(file);
             const embedFn = (text: string) =>
-                getEmbedding(text, this.plugin.settings);
-            await this.vectorStore.indexNote(file, content, embedFn);
+                getEmbedding(text, this.plugin.settings, signal);
+            await this.vectorStore.indexNote(file, content, embedFn, this.noteMetadata(file), signal);
             console.log(`[DeepNotes] Automatically indexed ${file.path}`);
         } catch (e) {
             console.error(`[DeepNotes] Failed to index ${file.path}:`, e);
             throw e; // Propagate error to count as failure
         }
     }
+
+    async renameNote(file: TFile, oldPath: string): Promise<void> {
+        await this.vectorStore.renameNote(oldPath, file.path, this.noteMetadata(file));
+    }
+
+    // Removes chunks of notes that no longer exist, e.g. deleted or renamed while the plugin was off
+    async pruneOrphans(): Promise<{ notes: number; chunks: number }> {
+        const vault = this.plugin.app.vault;
+        const orphans = await this.vectorStore.findOrphans(
+            (filePath) => vault.getAbstractFileByPath(filePath) instanceof TFile
+        );
+        let chunks = 0;
+        for (const [filePath, count] of orphans) {
+            console.log(`[DeepNotes] Removing ${count} chunks of missing note ${filePath}`);
+            await this.vectorStore.removeNote(filePath);
+            chunks += count;
+        }
+        return { notes: orphans.size, chunks };
+    }
+
+    private noteMetadata(file: TFile): NoteMetadata {
+        const cache = this.plugin.app.metadataCache.getFileCache(file);
+        const tags = cache ? getAllTags(cache) ?? [] : [];
+        // "position" is Obsidian's parser bookkeeping, not a field
+        const { position, ...frontmatter } = cache?.frontmatter ?? {};
+        return {
+            folder: file.parent?.isRoot() ? "" : file.parent?.path ?? "",
+            tags: [...new Set(tags.map((tag) => tag.replace(/^#/, "")))],
+            frontmatter,
+            ctime: file.stat.ctime,
+            mtime: file.stat.mtime,
+        };
+    }
 }
@@ -0,0 +1,172 @@
+import type { DeepNotesItem } from "./ai";
+import type { JsonSchema } from "./providers";
+import { QUESTION_FORMATS, QuestionFormat } from "./questionFormats";
+
+export const ITEM_TYPES: DeepNotesItem["type"][] = ["knowledge-expansion", "suggestion", "cross-topic"];
+
+/**
+ * Reply shape requested from providers with native structured output. Items are
+ * wrapped in an object because OpenAI only accepts an object at the root.
+ */
+export const DEEP_NOTES_RESPONSE_SCHEMA: JsonSchema = {
+	type: "object",
+	properties: {
+		items: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					type: { type: "string", enum: ITEM_TYPES },
+					format: { type: "string", enum: QUESTION_FORMATS },
+					text: { type: "string", description: "The question or suggestion." },
+					sample_answer: { type: "string", description: "A concise, ideal answer (or rationale for a suggestion)." },
+					key_concepts: { type: "array", items: { type: "string" }, description: "Rubric points a complete answer must cover." },
+					source_excerpt: { type: "string", description: "Verbatim quote from the note that inspired the item." },
+					source_note: { type: "string", description: "Title of the related note (cross-topic items only)." },
+					choices: { type: "array", items: { type: "string" }, description: "Multiple choice options." },
+					correct_choice: { type: "integer", description: "0-based index of the correct choice." },
+					cloze_answer: { type: "string", description: "Term from source_excerpt to blank out." },
+					is_true: { type: "boolean", description: "Whether a true/false statement is correct." },
+					steps: { type: "array", items: { type: "string" }, description: "Ordering steps in the correct order." },
+				},
+				required: ["type", "text", "sample_answer"],
+			},
+		},
+	},
+	required: ["items"],
+};
+
+export interface ItemValidation {
+	items: DeepNotesItem[];
+	// Human-readable problems, also sent back to the model on repair
+	errors: string[];
+}
+
+// Accepts the schema's { items: [...] } or a bare array (providers without structured output)
+export function validateDeepNotesResponse(parsed: unknown): ItemValidation {
+	let entries: unknown;
+	if (Array.isArray(parsed)) {
+		entries = parsed;
+	} else if (parsed && typeof parsed === "object") {
+		entries = (parsed as Record<string, unknown>).items;
+	}
+
+	if (!Array.isArray(entries)) {
+		return { items: [], errors: ['The reply must be an object with an "items" array.'] };
+	}
+	if (entries.length === 0) {
+		return { items: [], errors: ['The "items" array is empty.'] };
+	}
+
+	const items: DeepNotesItem[] = [];
+	const errors: string[] = [];
+	entries.forEach((entry, i) => {
+		const result = validateDeepNotesItem(entry);
+		if (result.item) {
+			items.push(result.item);
+		}
+		errors.push(...result.errors.map((e) => `Item ${i + 1}: ${e}`));
+	});
+	return { items, errors };
+}
+
+// Imported question banks may leave out the sample answer; generated items must have one
+export function validateDeepNotesItem(entry: unknown, requireAnswer = true): { item?: DeepNotesItem; errors: string[] } {
+	if (!entry || typeof entry !== "object" || Array.isArray(entry)) {
+		return { errors: ["must be an object."] };
+	}
+
+	const raw = entry as Record<string, unknown>;
+	const errors: string[] = [];
+
+	if (!ITEM_TYPES.includes(raw.type as DeepNotesItem["type"])) {
+		errors.push(`"type" must be one of ${ITEM_TYPES.map((t) => `"${t}"`).join(", ")}.`);
+	}
+	for (const field of requireAnswer ? ["text", "sample_answer"] : ["text"]) {
+		if (typeof raw[field] !== "string" || !(raw[field] as string).trim()) {
+			errors.push(`"${field}" must be a non-empty string.`);
+		}
+	}
+	for (const field of requireAnswer ? ["source_excerpt", "source_note"] : ["sample_answer", "source_excerpt", "source_note"]) {
+		if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== "string") {
+			errors.push(`"${field}" must be a string if present.`);
+		}
+	}
+	if (raw.key_concepts !== undefined && raw.key_concepts !== null
+		&& (!Array.isArray(raw.key_concepts) || raw.key_concepts.some((c) => typeof c !== "string"))) {
+		errors.push('"key_concepts" must be an array of strings if present.');
+	}
+
+	const format = (raw.format ?? "open") as QuestionFormat;
+	if (!QUESTION_FORMATS.includes(format)) {
+		errors.push(`"format" must be one of ${QUESTION_FORMATS.map((f) => `"${f}"`).join(", ")}.`);
+	} else {
+		errors.push(...validateFormatFields(format, raw));
+	}
+
+	if (errors.length > 0) {
+		return { errors };
+	}
+
+	const item: DeepNotesItem = {
+		type: raw.type as DeepNotesItem["type"],
+		text: (raw.text as string).trim(),
+		sampleAnswer: ((raw.sample_answer as string | undefined) ?? "").trim() || undefined,
+		sourceExcerpt: (raw.source_excerpt as string | undefined) || undefined,
+		sourceNote: (raw.source_note as string | undefined) || undefined,
+	};
+	const keyConcepts = ((raw.key_concepts as string[] | undefined) ?? []).map((c) => c.trim()).filter(Boolean);
+	if (keyConcepts.length > 0) {
+		item.keyConcepts = keyConcepts;
+	}
+	if (format !== "open") {
+		item.format = format;
+	}
+	if (format === "multiple-choice") {
+		item.choices = (raw.choices as string[]).map((c) => c.trim());
+		item.correctChoice = raw.correct_choice as number;
+	} else if (format === "cloze") {
+		item.clozeAnswer = (raw.cloze_answer as string).trim();
+	} else if (format === "true-false") {
+		item.isTrue = raw.is_true as boolean;
+	} else if (format === "ordering") {
+		item.steps = (raw.steps as string[]).map((s) => s.trim());
+	}
+	return { item, errors };
+}
+
+// Fields each closed format needs to be answerable and gradable
+function validateFormatFields(format: QuestionFormat, raw: Record<string, unknown>): string[] {
+	const isStringList = (value: unknown, min: number) =>
+		Array.isArray(value) && value.length >= min && value.every((v) => typeof v === "string" && v.trim());
+
+	switch (format) {
+		case "multiple-choice": {
+			if (!isStringList(raw.choices, 2)) {
+				return ['"choices" must be an array of at least 2 non-empty strings.'];
+			}
+			const index = raw.correct_choice;
+			if (typeof index !== "number" || !Number.isInteger(index) || index < 0 || index >= (raw.choices as string[]).length) {
+				return ['"correct_choice" must be the 0-based index of one of the choices.'];
+			}
+			return [];
+		}
+		case "cloze": {
+			const answer = raw.cloze_answer;
+			const excerpt = raw.source_excerpt;
+			if (typeof answer !== "string" || !answer.trim()) {
+				return ['"cloze_answer" must be a non-empty string.'];
+			}
+			if (typeof excerpt !== "string" || !excerpt.toLowerCase().includes(answer.trim().toLowerCase())) {
+				return ['"cloze_answer" must appear verbatim in "source_excerpt".'];
+			}
+			return [];
+		}
+		case "true-false":
+			return typeof raw.is_true === "boolean" ? [] : ['"is_true" must be true or false.'];
+		case "ordering":
+			return isStringList(raw.steps, 3) ? [] : ['"steps" must be an array of at least 3 non-empty strings.'];
+		default:
+			return [];
+	}
+}
@@ -0,0 +1,257 @@
+import type { DataAdapter } from "obsidian";
+import { emptyNoteMetadata, NoteChunk, NoteMetadata, SearchResult } from "./vectorStore";
+
+interface StoredChunk extends NoteChunk, NoteMetadata {}
+
+interface KeywordIndexData {
+    version: number;
+    chunks: StoredChunk[];
+}
+
+interface IndexedChunk extends StoredChunk {
+    length: number;
+}
+
+// 2: chunks carry note metadata
+const INDEX_VERSION = 2;
+// BM25 term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// A whole note is a long query; only its most distinctive terms are searched
+const MAX_QUERY_TERMS = 32;
+const SAVE_DELAY_MS = 2000;
+
+const STOPWORDS = new Set(
+    ("a an and are as at be been but by can do does for from had has have how i if in into is it its " +
+        "may more most no not of on or our so such than that the their them then there these they this " +
+        "to was we were what when where which while who why will with would you your")
+        .split(" ")
+);
+
+/**
+ * BM25 index over the same chunks as the vector store. Catches exact matches on
+ * jargon, acronyms and names that embeddings blur together. Kept in memory and
+ * saved as chunk text; postings are rebuilt on load.
+ */
+export class KeywordIndex {
+    private chunks = new Map<string, IndexedChunk>();
+    // term -> chunk key -> term frequency
+    private postings = new Map<string, Map<string, number>>();
+    // File path -> keys of its chunks
+    private notes = new Map<string, string[]>();
+    private totalLength = 0;
+    private saveTimer: number | null = null;
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    async load(): Promise<void> {
+        if (!(await this.adapter.exists(this.path))) return;
+        try {
+            const data = JSON.parse(await this.adapter.read(this.path)) as KeywordIndexData;
+            for (const chunk of data.chunks ?? []) {
+                this.addChunk({ ...emptyNoteMetadata(chunk.filePath, chunk.mtime), ...chunk });
+            }
+        } catch (e) {
+            console.error("Deep Notes: Could not read keyword index", e);
+        }
+    }
+
+    get size(): number {
+        return this.chunks.size;
+    }
+
+    hasNote(filePath: string, mtime: number): boolean {
+        const key = this.notes.get(filePath)?.[0];
+        return key !== undefined && this.chunks.get(key)!.mtime === mtime;
+    }
+
+    setNote(filePath: string, chunks: NoteChunk[], note: NoteMetadata): void {
+        this.removeChunks(filePath);
+        for (const chunk of chunks) {
+            this.addChunk({ ...chunk, ...note });
+        }
+        this.scheduleSave();
+    }
+
+    setNoteMetadata(filePath: string, note: NoteMetadata): void {
+        for (const key of this.notes.get(filePath) ?? []) {
+            Object.assign(this.chunks.get(key)!, note);
+        }
+        this.scheduleSave();
+    }
+
+    // Adds chunks that are already in the vector index, without replacing the note
+    restoreChunks(chunks: StoredChunk[]): void {
+        for (const chunk of chunks) {
+            this.addChunk(chunk);
+        }
+        this.scheduleSave();
+    }
+
+    renameNote(oldPath: string, newPath: string, note: NoteMetadata): void {
+        const chunks = (this.notes.get(oldPath) ?? []).map((key) => this.chunks.get(key)!);
+        if (chunks.length === 0) return;
+        this.removeChunks(oldPath);
+        this.removeChunks(newPath);
+        for (const { length, ...chunk } of chunks) {
+            this.addChunk({ ...chunk, ...note, filePath: newPath });
+        }
+        this.scheduleSave();
+    }
+
+    notePaths(): string[] {
+        return [...this.notes.keys()];
+    }
+
+    removeNote(filePath: string): void {
+        if (this.removeChunks(filePath)) {
+            this.scheduleSave();
+        }
+    }
+
+    clear(): void {
+        this.chunks.clear();
+        this.postings.clear();
+        this.notes.clear();
+        this.totalLength = 0;
+        this.scheduleSave();
+    }
+
+    // `accept` decides which notes may appear in the results
+    search(query: string, topK: number, accept?: (filePath: string, note: NoteMetadata) => boolean): SearchResult[] {
+        const count = this.chunks.size;
+        if (count === 0) return [];
+        const averageLength = this.totalLength / count;
+
+        const scores = new Map<string, number>();
+        const accepted = new Map<string, boolean>();
+        for (const term of this.queryTerms(query)) {
+            const postings = this.postings.get(term)!;
+            const idf = this.idf(term);
+            for (const [key, tf] of postings) {
+                const chunk = this.chunks.get(key)!;
+                if (accept) {
+                    let ok = accepted.get(chunk.filePath);
+                    if (ok === undefined) {
+                        ok = accept(chunk.filePath, chunk);
+                        accepted.set(chunk.filePath, ok);
+                    }
+                    if (!ok) continue;
+                }
+                const norm = tf + K1 * (1 - B + (B * chunk.length) / averageLength);
+                scores.set(key, (scores.get(key) ?? 0) + (idf * tf * (K1 + 1)) / norm);
+            }
+        }
+
+        return [...scores.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, topK)
+            .map(([key, score]) => {
+                const chunk = this.chunks.get(key)!;
+                return {
+                    text: chunk.text,
+                    filePath: chunk.filePath,
+                    chunkIndex: chunk.chunkIndex,
+                    noteTitle: noteTitle(chunk.filePath),
+                    heading: chunk.heading,
+                    score,
+                };
+            });
+    }
+
+    async save(): Promise<void> {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        const chunks: StoredChunk[] = [];
+        for (const { length, ...chunk } of this.chunks.values()) {
+            chunks.push(chunk);
+        }
+        const data: KeywordIndexData = { version: INDEX_VERSION, chunks };
+        await this.adapter.write(this.path, JSON.stringify(data));
+    }
+
+    // Indexing a vault touches many notes in a row; write once they settle
+    private scheduleSave(): void {
+        if (this.saveTimer !== null) {
+            window.clearTimeout(this.saveTimer);
+        }
+        this.saveTimer = window.setTimeout(() => {
+            this.saveTimer = null;
+            this.save().catch((e) => console.error("Deep Notes: Could not save keyword index", e));
+        }, SAVE_DELAY_MS);
+    }
+
+    // The query's indexed terms with the highest tf-idf
+    private queryTerms(query: string): string[] {
+        const counts = new Map<string, number>();
+        for (const term of tokenize(query)) {
+            if (this.postings.has(term)) {
+                counts.set(term, (counts.get(term) ?? 0) + 1);
+            }
+        }
+        return [...counts.entries()]
+            .map(([term, tf]) => ({ term, weight: tf * this.idf(term) }))
+            .sort((a, b) => b.weight - a.weight)
+            .slice(0, MAX_QUERY_TERMS)
+            .map((t) => t.term);
+    }
+
+    private idf(term: string): number {
+        const df = this.postings.get(term)?.size ?? 0;
+        return Math.log(1 + (this.chunks.size - df + 0.5) / (df + 0.5));
+    }
+
+    private addChunk(chunk: StoredChunk): void {
+        const key = `${chunk.filePath}#${chunk.chunkIndex}`;
+        if (this.chunks.has(key)) return;
+        const terms = tokenize(`${chunk.heading}\n${chunk.text}`);
+        this.chunks.set(key, { ...chunk, length: terms.length });
+        this.notes.set(chunk.filePath, [...(this.notes.get(chunk.filePath) ?? []), key]);
+        this.totalLength += terms.length;
+        for (const term of terms) {
+            let postings = this.postings.get(term);
+            if (!postings) {
+                postings = new Map();
+                this.postings.set(term, postings);
+            }
+            postings.set(key, (postings.get(key) ?? 0) + 1);
+        }
+    }
+
+    private removeChunks(filePath: string): boolean {
+        const keys = this.notes.get(filePath) ?? [];
+        for (const key of keys) {
+            const chunk = this.chunks.get(key);
+            if (!chunk) continue;
+            for (const term of new Set(tokenize(`${chunk.heading}\n${chunk.text}`))) {
+                const postings = this.postings.get(term);
+                postings?.delete(key);
+                if (postings?.size === 0) this.postings.delete(term);
+            }
+            this.totalLength -= chunk.length;
+            this.chunks.delete(key);
+        }
+        this.notes.delete(filePath);
+        return keys.length > 0;
+    }
+}
+
+/**
+ * Lowercased words and numbers with accents folded. No stemming, so technical
+ * terms and acronyms only match exactly.
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function noteTitle(filePath: string): string {
+    const parts = filePath.split("/");
+    return parts[parts.length - 1].replace(/\.md$/, "");
+}
@@ -1,19 +1,33 @@
-import { Plugin, TFile, debounce, Notice } from "obsidian";
-import { VIEW_TYPE_DEEP_NOTES } from "./constants";
+import { Plugin, TAbstractFile, TFile, Notice } from "obsidian";
+import { VIEW_TYPE_DEEP_NOTES, VIEW_TYPE_DEEP_NOTES_DASHBOARD, VIEW_TYPE_DEEP_NOTES_INDEX, VIEW_TYPE_DEEP_NOTES_REVIEW } from "./constants";
 import {
 	DeepNotesSettings,
 	DEFAULT_SETTINGS,
 	DeepNotesSettingTab,
+	LegacySettings,
 } from "./settings";
-import { DeepNotesView } from "./view";
-import { VaultVectorStore } from "./vectorStore";
+import { DeepNotesView, renameCachedSession } from "./view";
+import { DeepNotesReviewView } from "./reviewView";
+import { DeepNotesDashboardView } from "./dashboardView";
+import { groupByNote, VaultVectorStore } from "./vectorStore";
+import { KeywordIndex } from "./keywordIndex";
+import { parseSearchFilter } from "./searchFilter";
 import { VaultIndexer } from "./indexer";
+import { IndexQueue } from "./indexQueue";
+import { DeepNotesIndexView, describeIndexStatus } from "./indexView";
 import { deepNotesHighlightField } from "./highlights";
+import { getOutdatedPrompts, migrateLegacySystemPrompt } from "./prompts";
+import { ReviewStore } from "./reviewStore";
+import { HistoryStore } from "./history";
+import { ANKI_FORMATS, exportToAnki, writeSrCards } from "./export";
 
 export default class DeepNotesPlugin extends Plugin {
 	settings: DeepNotesSettings = DEFAULT_SETTINGS;
 	vectorStore!: VaultVectorStore;
 	indexer!: VaultIndexer;
+	indexQueue!: IndexQueue;
+	reviewStore!: ReviewStore;
+	historyStore!: HistoryStore;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
@@ -22,11 +36,46 @@ export default class DeepNotesPlugin extends Plugin {
 		const pluginDir = this.manifest.dir;
 		const vaultBasePath = (this.app.vault.adapter as any).basePath;
 		const fullPluginDir = `${vaultBasePath}/${pluginDir}`;
-		this.vectorStore = new VaultVectorStore(fullPluginDir);
+		this.vectorStore = new VaultVectorStore(
+			fullPluginDir,
+			new KeywordIndex(this.app.vault.adapter, `${pluginDir}/keywords.json`)
+		);
 		await this.vectorStore.initialize();
 		this.indexer = new VaultIndexer(this, this.vectorStore);
+		this.indexQueue = new IndexQueue(this, `${pluginDir}/index-queue.json`, (file, signal) =>
+			this.indexer.indexSingleNote(file, signal)
+		);
+		await this.indexQueue.load();
+
+		// Session history and spaced repetition cards live in their own files next to data.json
+		this.historyStore = new HistoryStore(this.app.vault.adapter, `${pluginDir}/history`);
+		await this.historyStore.load();
+		await this.migrateLegacyHistory();
+
+		this.reviewStore = new ReviewStore(this.app.vault.adapter, `${pluginDir}/review-cards.json`);
+		if (!(await this.reviewStore.load())) {
+			// First run with review cards: schedule the questions already evaluated in history
+			await this.reviewStore.importSessions(this.historyStore.all(), this.settings.scheduler);
+		}
 
 		this.registerView(VIEW_TYPE_DEEP_NOTES, (leaf) => new DeepNotesView(leaf, this));
+		this.registerView(VIEW_TYPE_DEEP_NOTES_REVIEW, (leaf) => new DeepNotesReviewView(leaf, this));
+		this.registerView(VIEW_TYPE_DEEP_NOTES_DASHBOARD, (leaf) => new DeepNotesDashboardView(leaf, this));
+		this.registerView(VIEW_TYPE_DEEP_NOTES_INDEX, (leaf) => new DeepNotesIndexView(leaf, this));
+
+		// Background indexing status; hidden while there is nothing to report
+		const statusBar = this.addStatusBarItem();
+		statusBar.addClass("deep-notes-index-status-bar");
+		statusBar.addEventListener("click", () => this.activateIndexView());
+		const updateStatusBar = () => {
+			const text = describeIndexStatus(this.indexQueue.getState());
+			statusBar.setText(text);
+			statusBar.toggle(text !== "");
+		};
+		this.register(this.indexQueue.onChange(updateStatusBar));
+		updateStatusBar();
+		// Notes left over from the last session resume once the vault is loaded
+		this.app.workspace.onLayoutReady(() => this.indexQueue.start());
 
 		this.addRibbonIcon("triangle", "Deep Notes", () => {
 			this.activateView();
@@ -38,6 +87,37 @@ export default class DeepNotesPlugin extends Plugin {
 			callback: () => this.activateView(),
 		});
 
+		this.addCommand({
+			id: "open-deep-notes-review",
+			name: "Review Due Questions",
+			callback: () => this.activateReviewView(),
+		});
+
+		this.addCommand({
+			id: "open-deep-notes-dashboard",
+			name: "Open Learning Dashboard",
+			callback: () => this.activateDashboardView(),
+		});
+
+		for (const format of ANKI_FORMATS) {
+			this.addCommand({
+				id: `export-note-anki-${format.value}`,
+				name: `Export Note Questions to Anki (${format.label})`,
+				callback: () => exportToAnki(this, format.value, "note"),
+			});
+			this.addCommand({
+				id: `export-all-anki-${format.value}`,
+				name: `Export All Questions to Anki (${format.label})`,
+				callback: () => exportToAnki(this, format.value, "vault"),
+			});
+		}
+
+		this.addCommand({
+			id: "write-spaced-repetition-cards",
+			name: "Write Note Questions as Spaced Repetition Cards",
+			callback: () => writeSrCards(this),
+		});
+
 		this.addCommand({
 			id: "check-similar-notes",
 			name: "Check Similar Notes for Current File (Debug)",
@@ -61,12 +141,19 @@ export default class DeepNotesPlugin extends Plugin {
 					}
 
 					console.log(`[DeepNotes] Searching with embedding (dim: ${embedding.length})`);
-					const results = await this.vectorStore.search(embedding, 5, file.path);
+					const results = await this.vectorStore.search(embedding, 5, {
+						excludeFilePath: file.path,
+						queryText: content,
+						keywordWeight: this.settings.keywordWeight,
+						filter: parseSearchFilter(this.settings.contextFilter).filter,
+						diversity: this.settings.resultDiversity,
+						maxChunksPerNote: this.settings.maxChunksPerNote,
+					});
 
 					if (results.length === 0) {
 						new Notice("No similar notes found (score > 0).");
 					} else {
-						const msg = results.map(r => `${r.noteTitle} (${(r.score).toFixed(4)})`).join("\n");
+						const msg = groupByNote(results).map(n => `${n.noteTitle} (${n.score.toFixed(4)}, ${n.chunks.length} chunk${n.chunks.length > 1 ? "s" : ""})`).join("\n");
 						new Notice(`Top matches:\n${msg}`, 5000);
 						console.log("[DeepNotes] Similarity Results:", results);
 					}
@@ -89,12 +176,50 @@ export default class DeepNotesPlugin extends Plugin {
 		});
 
 
+		this.addCommand({
+			id: "write-question",
+			name: "Write a Question for the Current Note",
+			callback: async () => {
+				const view = await this.activateView();
+				view?.openQuestionForm();
+			},
+		});
+
+		this.addCommand({
+			id: "import-questions",
+			name: "Import Questions from File",
+			callback: async () => {
+				const view = await this.activateView();
+				view?.openQuestionBankPicker();
+			},
+		});
+
 		this.addCommand({
 			id: "index-vault",
 			name: "Index Vault for Cross-Topic Search",
 			callback: () => this.indexer.indexVault(),
 		});
 
+		this.addCommand({
+			id: "show-indexing-progress",
+			name: "Show Indexing Progress",
+			callback: () => this.activateIndexView(),
+		});
+
+		this.addCommand({
+			id: "toggle-indexing",
+			name: "Pause or Resume Vault Indexing",
+			callback: () => {
+				if (this.indexQueue.getState().status === "paused") {
+					this.indexQueue.resume();
+					new Notice("Indexing resumed.");
+				} else {
+					this.indexQueue.pause();
+					new Notice("Indexing paused.");
+				}
+			},
+		});
+
 		this.addCommand({
 			id: "clear-index",
 			name: "Clear Semantic Search Index",
@@ -123,27 +248,81 @@ export default class DeepNotesPlugin extends Plugin {
 			},
 		});
 
-		// Incremental re-indexing on file modify
+		this.addCommand({
+			id: "check-index-consistency",
+			name: "Check Semantic Index Consistency",
+			callback: async () => {
+				try {
+					const { notes, chunks } = await this.indexer.pruneOrphans();
+					new Notice(
+						notes > 0
+							? `Removed ${chunks} chunks of ${notes} notes that no longer exist.`
+							: "Index is consistent: every indexed note exists."
+					);
+				} catch (e) {
+					new Notice(`Error checking index: ${e}`);
+				}
+			},
+		});
+
+		// Incremental re-indexing on file modify; the queue waits until edits settle
 		this.registerEvent(
-			this.app.vault.on(
-				"modify",
-				debounce((file: TFile) => {
-					if (file.extension === "md") {
-						this.indexer.indexSingleNote(file);
-					}
-				}, 5000)
-			)
+			this.app.vault.on("modify", (file: TFile) => {
+				if (file.extension === "md") {
+					this.indexQueue.enqueue([file.path]);
+				}
+			})
+		);
+
+		// The open note is indexed before the rest of the queue
+		this.registerEvent(
+			this.app.workspace.on("file-open", (file: TFile | null) => {
+				if (file) {
+					this.indexQueue.prioritize(file.path);
+				}
+			})
 		);
 
 		// Remove vectors for deleted notes from the index
 		this.registerEvent(
 			this.app.vault.on("delete", async (file: TFile) => {
 				if (file.extension === "md") {
+					this.indexQueue.remove(file.path);
 					await this.vectorStore.removeNote(file.path);
 				}
 			})
 		);
 
+		// Follow renamed and moved notes in the index, history, review cards and the open view
+		this.registerEvent(
+			this.app.vault.on("rename", async (file: TAbstractFile, oldPath: string) => {
+				if (!(file instanceof TFile)) return;
+				this.indexQueue.rename(oldPath, file.path);
+				try {
+					if (file.extension === "md") {
+						await this.indexer.renameNote(file, oldPath);
+						await this.historyStore.renameNote(oldPath, file.path, file.basename);
+						await this.reviewStore.renameNote(oldPath, file.path, file.basename);
+					} else if (oldPath.endsWith(".md")) {
+						await this.vectorStore.removeNote(oldPath);
+					}
+				} catch (e) {
+					console.error(`[DeepNotes] Failed to follow rename of ${oldPath} to ${file.path}:`, e);
+				}
+				renameCachedSession(oldPath, file.path);
+				for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DEEP_NOTES)) {
+					if (leaf.view instanceof DeepNotesView) {
+						leaf.view.handleRename(oldPath, file.path);
+					}
+				}
+				for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_DEEP_NOTES_REVIEW)) {
+					if (leaf.view instanceof DeepNotesReviewView) {
+						leaf.view.handleRename(oldPath, file.path);
+					}
+				}
+			})
+		);
+
 		this.addSettingTab(new DeepNotesSettingTab(this.app, this));
 
 		// Register CM6 editor extension for highlights
@@ -151,7 +330,13 @@ export default class DeepNotesPlugin extends Plugin {
 	}
 
 	onunload(): void {
+		// Write pending keyword index changes and the index queue now rather than after the save delay
+		this.vectorStore.keywords.save();
+		this.indexQueue.close();
 		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DEEP_NOTES);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DEEP_NOTES_REVIEW);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DEEP_NOTES_DASHBOARD);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_DEEP_NOTES_INDEX);
 	}
 
 	async activateView(): Promise<DeepNotesView | null> {
@@ -172,10 +357,95 @@ export default class DeepNotesPlugin extends Plugin {
 		return leaf.view as DeepNotesView;
 	}
 
+	// The review queue opens in a main-area tab and starts over with the cards due now
+	async activateReviewView(): Promise<DeepNotesReviewView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_DEEP_NOTES_REVIEW)[0];
+
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({
+				type: VIEW_TYPE_DEEP_NOTES_REVIEW,
+				active: true,
+			});
+		} else {
+			(leaf.view as DeepNotesReviewView).startSession();
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view as DeepNotesReviewView;
+	}
+
+	// The dashboard also opens in a main-area tab and is rebuilt from history each time
+	async activateDashboardView(): Promise<DeepNotesDashboardView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_DEEP_NOTES_DASHBOARD)[0];
+
+		if (!leaf) {
+			leaf = workspace.getLeaf("tab");
+			await leaf.setViewState({
+				type: VIEW_TYPE_DEEP_NOTES_DASHBOARD,
+				active: true,
+			});
+		} else {
+			(leaf.view as DeepNotesDashboardView).render();
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view as DeepNotesDashboardView;
+	}
+
+	// The indexing panel opens in the right sidebar, like the main view
+	async activateIndexView(): Promise<DeepNotesIndexView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_DEEP_NOTES_INDEX)[0];
+
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return null;
+			leaf = rightLeaf;
+			await leaf.setViewState({
+				type: VIEW_TYPE_DEEP_NOTES_INDEX,
+				active: true,
+			});
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view as DeepNotesIndexView;
+	}
+
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
-		// Always use the latest system prompt from code
-		this.settings.systemPrompt = DEFAULT_SETTINGS.systemPrompt;
+		const { systemPrompt, ...saved }: Partial<DeepNotesSettings> & LegacySettings = (await this.loadData()) ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, saved);
+
+		// Older versions kept the generation system prompt here; prompts now live in settings.prompts
+		const migrated = systemPrompt !== undefined ? migrateLegacySystemPrompt(systemPrompt) : null;
+		if (migrated && !this.settings.prompts.some((p) => p.id === migrated.id)) {
+			this.settings.prompts = [...this.settings.prompts, migrated];
+			new Notice("Deep Notes: your edited system prompt is now the question generation template. Compare it with the new default under Prompt Templates in the settings.", 8000);
+		}
+		if (systemPrompt !== undefined) {
+			await this.saveSettings();
+		}
+
+		const outdated = getOutdatedPrompts(this.settings).filter((p) => p !== migrated);
+		if (outdated.length > 0) {
+			new Notice(
+				`Deep Notes: a new default is available for ${outdated.length} prompt${outdated.length > 1 ? "s" : ""} you edited. Review it under Prompt Templates in the settings.`,
+				8000
+			);
+		}
+	}
+
+	// Older versions kept up to 50 sessions, embeddings included, in data.json
+	private async migrateLegacyHistory(): Promise<void> {
+		const legacy = this.settings.history;
+		if (!legacy) return;
+		if (legacy.length > 0) {
+			await this.historyStore.importLegacy(legacy);
+		}
+		delete this.settings.history;
+		await this.saveSettings();
 	}
 
 	async saveSettings(): Promise<void> {
@@ -1,14 +1,18 @@
 import { App, normalizePath, TFile } from "obsidian";
+import type { LLMProvider } from "./providers";
+import { isAbortError } from "./abort";
 
 export interface OCRSettings {
 	enabled: boolean;
-	provider: "ollama" | "gemini";
-	visionModel: string; // for Ollama
+	provider: LLMProvider;
+	visionModel: string;
 	maxImages: number;
-	ollamaBaseUrl: string;
-	apiKey?: string; // for Gemini
+	signal?: AbortSignal;
 }
 
+const OCR_INSTRUCTION =
+	"Extract and transcribe all readable text from this image. Return plain text only. If no readable text is present, return an empty string.";
+
 export interface OCRExtractionResult {
 	text: string;
 	debugLines: string[];
@@ -43,14 +47,13 @@ export async function extractOcrDataFromNoteImages(
 	const extractedBlocks: string[] = [];
 	const debugLines: string[] = [
 		`Detected ${imageFiles.length} OCR source(s).`,
-		`Vision Provider: ${settings.provider}`,
+		`Vision Provider: ${settings.provider.label}`,
 	];
 
-	if (settings.provider === "ollama") {
-		debugLines.push(`Vision model: ${settings.visionModel}`);
-		debugLines.push(`Ollama base URL: ${(settings.ollamaBaseUrl || "http://127.0.0.1:11434").replace(/\/$/, "")}`);
-	} else {
-		debugLines.push(`Gemini model: gemini-2.0-flash`);
+	debugLines.push(`Vision model: ${settings.visionModel}`);
+
+	if (!settings.provider.supportsVision(settings.visionModel)) {
+		debugLines.push(`Model '${settings.visionModel}' has no vision support; skipping raster images.`);
 	}
 
 	for (let index = 0; index < imageFiles.length; index++) {
@@ -76,22 +79,22 @@ export async function extractOcrDataFromNoteImages(
 			const { base64, bytes } = await readImageAsBase64(app, imageFile);
 			const mimeType = extensionToMime(imageFile.extension);
 
-			let text = "";
-			if (settings.provider === "gemini") {
-				if (!settings.apiKey) {
-					throw new Error("Gemini API key is required for Vision OCR.");
-				}
-				debugLines.push(
-					`[${index + 1}] ${imageFile.path} (raster): uploading ${bytes} bytes to Gemini Vision...`
-				);
-				text = await runGeminiVisionOCR(base64, mimeType, settings.apiKey);
-			} else {
-				debugLines.push(
-					`[${index + 1}] ${imageFile.path} (raster): uploading ${bytes} bytes to Ollama vision model '${settings.visionModel}'...`
-				);
-				text = await runOllamaVisionOCR(base64, settings.visionModel, settings.ollamaBaseUrl);
+			if (!settings.provider.supportsVision(settings.visionModel)) {
+				continue;
 			}
 
+			debugLines.push(
+				`[${index + 1}] ${imageFile.path} (raster): uploading ${bytes} bytes to ${settings.provider.label} model '${settings.visionModel}'...`
+			);
+			const text = await settings.provider.chat({
+				model: settings.visionModel,
+				systemPrompt: "",
+				userMessage: OCR_INSTRUCTION,
+				images: [{ base64, mimeType, path: imageFile.path, bytes }],
+				temperature: 0.2, // Low temp for OCR accuracy
+				signal: settings.signal,
+			});
+
 			const cleaned = text.trim();
 			debugLines.push(
 				`[${index + 1}] OCR extraction result: ${cleaned ? `${cleaned.length} character(s)` : "no readable text"}.`
@@ -105,6 +108,7 @@ export async function extractOcrDataFromNoteImages(
 				].join("\n")
 			);
 		} catch (error) {
+			if (isAbortError(error)) throw error;
 			debugLines.push(
 				`[${index + 1}] OCR failed for ${imageFile.path}: ${error instanceof Error ? error.message : String(error)}`
 			);
@@ -525,83 +529,3 @@ function arrayBufferToBase64(buffer: ArrayBuffer): string {
 	}
 	return btoa(binary);
 }
-
-async function runOllamaVisionOCR(
-	imageBase64: string,
-	visionModel: string,
-	baseUrl: string
-): Promise<string> {
-	const normalizedBase = (baseUrl || "http://127.0.0.1:11434").replace(/\/$/, "");
-	const response = await fetch(`${normalizedBase}/api/chat`, {
-		method: "POST",
-		headers: {
-			"Content-Type": "application/json",
-		},
-		body: JSON.stringify({
-			model: visionModel,
-			stream: false,
-			messages: [
-				{
-					role: "user",
-					content:
-						"Extract and transcribe all readable text from this image. Return plain text only. If no readable text is present, return an empty string.",
-					images: [imageBase64],
-				},
-			],
-		}),
-	});
-
-	if (!response.ok) {
-		const err = await response.text();
-		if (response.status === 404 && /not found/i.test(err)) {
-			throw new Error(`Vision model '${visionModel}' not found. Run: ollama pull ${visionModel}`);
-		}
-		throw new Error(`Ollama vision OCR error (${response.status}): ${err}`);
-	}
-
-	const data = await response.json();
-	return data.message?.content ?? "";
-}
-
-async function runGeminiVisionOCR(
-	imageBase64: string,
-	mimeType: string,
-	apiKey: string,
-	model = "gemini-2.0-flash"
-): Promise<string> {
-	const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`;
-
-	const response = await fetch(url, {
-		method: "POST",
-		headers: { "Content-Type": "application/json" },
-		body: JSON.stringify({
-			contents: [
-				{
-					role: "user",
-					parts: [
-						{
-							inlineData: {
-								mimeType: mimeType,
-								data: imageBase64,
-							},
-						},
-						{
-							text: "Extract and transcribe all readable text from this image. Return plain text only. If no readable text is present, return an empty string.",
-						},
-					],
-				},
-			],
-			generationConfig: {
-				temperature: 0.2, // Low temp for OCR accuracy
-			},
-		}),
-	});
-
-	if (!response.ok) {
-		const err = await response.text();
-		throw new Error(`Gemini Vision API error (${response.status}): ${err}`);
-	}
-
-	const data = await response.json();
-	return data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
-}
@@ -0,0 +1,121 @@
+import {
+	DEFAULT_SYSTEM_PROMPT,
+	DEFAULT_USER_PROMPT,
+	IMAGE_SCAN_SYSTEM_PROMPT,
+	IMAGE_SCAN_USER_PROMPT,
+	GO_DEEPER_SYSTEM_PROMPT,
+	GO_DEEPER_USER_PROMPT,
+	GRADING_SYSTEM_PROMPT,
+	GRADING_USER_PROMPT,
+} from "./constants";
+import type { DeepNotesSettings } from "./settings";
+import { fnv1a } from "./hash";
+
+export type PromptKind = "generation" | "image-scan" | "go-deeper" | "grading";
+
+export interface PromptTemplate {
+	id: string;
+	name: string;
+	kind: PromptKind;
+	system: string;
+	user: string;
+	// Set on edited copies of a built-in: the default and version the edit started from
+	basedOn?: { id: string; version: number };
+}
+
+export interface BuiltinPrompt extends PromptTemplate {
+	version: number;
+}
+
+export const PROMPT_KINDS: { value: PromptKind; label: string; variables: string[] }[] = [
+	{ value: "generation", label: "Question generation", variables: ["note", "related", "count", "mix", "formats", "language"] },
+	{ value: "image-scan", label: "Image scan", variables: ["note", "annotations", "count", "language"] },
+	{ value: "go-deeper", label: "Go Deeper", variables: ["note", "question", "sample_answer", "response", "count", "language"] },
+	{ value: "grading", label: "Grading (AI judge)", variables: ["note", "answers", "language"] },
+];
+
+// Number of items the image-scan and Go Deeper prompts ask for; exposed to templates as {{count}}.
+// Generation uses the question mix instead; grading produces one grade per answer.
+export const PROMPT_ITEM_COUNT: Record<PromptKind, number> = {
+	generation: 6,
+	"image-scan": 5,
+	"go-deeper": 1,
+	grading: 0,
+};
+
+export const BUILTIN_PROMPTS: BuiltinPrompt[] = [
+	{ id: "default-generation", name: "Default", kind: "generation", version: 6, system: DEFAULT_SYSTEM_PROMPT, user: DEFAULT_USER_PROMPT },
+	{ id: "default-image-scan", name: "Default", kind: "image-scan", version: 3, system: IMAGE_SCAN_SYSTEM_PROMPT, user: IMAGE_SCAN_USER_PROMPT },
+	{ id: "default-go-deeper", name: "Default", kind: "go-deeper", version: 3, system: GO_DEEPER_SYSTEM_PROMPT, user: GO_DEEPER_USER_PROMPT },
+	{ id: "default-grading", name: "Default", kind: "grading", version: 2, system: GRADING_SYSTEM_PROMPT, user: GRADING_USER_PROMPT },
+];
+
+export const DEFAULT_ACTIVE_PROMPTS: Record<PromptKind, string> = {
+	generation: "default-generation",
+	"image-scan": "default-image-scan",
+	"go-deeper": "default-go-deeper",
+	grading: "default-grading",
+};
+
+export function getBuiltinPrompt(id: string): BuiltinPrompt | undefined {
+	return BUILTIN_PROMPTS.find((p) => p.id === id);
+}
+
+// A saved template with a built-in's id is the user's edit of that default
+export function getPrompt(settings: DeepNotesSettings, id: string): PromptTemplate | undefined {
+	return settings.prompts.find((p) => p.id === id) ?? getBuiltinPrompt(id);
+}
+
+// Built-ins (or their edits) followed by user-created templates of the given kind
+export function listPrompts(settings: DeepNotesSettings, kind: PromptKind): PromptTemplate[] {
+	const builtins = BUILTIN_PROMPTS.filter((p) => p.kind === kind).map((p) => getPrompt(settings, p.id) ?? p);
+	const custom = settings.prompts.filter((p) => p.kind === kind && !getBuiltinPrompt(p.id));
+	return [...builtins, ...custom];
+}
+
+export function getActivePrompt(settings: DeepNotesSettings, kind: PromptKind): PromptTemplate {
+	const active = getPrompt(settings, settings.activePrompts?.[kind] ?? DEFAULT_ACTIVE_PROMPTS[kind]);
+	return active && active.kind === kind ? active : getBuiltinPrompt(DEFAULT_ACTIVE_PROMPTS[kind])!;
+}
+
+// Edited built-ins whose default has changed since the edit was made
+export function getOutdatedPrompts(settings: DeepNotesSettings): PromptTemplate[] {
+	return settings.prompts.filter((p) => {
+		const builtin = getBuiltinPrompt(p.id);
+		return builtin && p.basedOn && p.basedOn.version < builtin.version;
+	});
+}
+
+// Hashes of the generation system prompts older versions shipped and saved as the "systemPrompt" setting
+const LEGACY_DEFAULT_SYSTEM_PROMPTS = ["h8s7y7", "7lezes"];
+
+/**
+ * Turns a system prompt saved by an older version into an edit of the default
+ * generation template. Returns null for an unedited default. The edit counts as
+ * based on version 0, so it is reported as outdated next to the current default.
+ */
+export function migrateLegacySystemPrompt(systemPrompt: string): PromptTemplate | null {
+	if (!systemPrompt.trim() || LEGACY_DEFAULT_SYSTEM_PROMPTS.includes(fnv1a(systemPrompt.trim()))) {
+		return null;
+	}
+	const builtin = getBuiltinPrompt(DEFAULT_ACTIVE_PROMPTS.generation)!;
+	return {
+		id: builtin.id,
+		name: builtin.name,
+		kind: builtin.kind,
+		system: systemPrompt,
+		user: builtin.user,
+		basedOn: { id: builtin.id, version: 0 },
+	};
+}
+
+// Replaces {{name}} placeholders; unknown names are left as written
+export function renderPrompt(template: string, variables: Record<string, string | number>): string {
+	return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+		name in variables ? String(variables[name]) : match
+	);
+}
+
+export function getPromptLanguage(settings: DeepNotesSettings): string {
+	return settings.questionLanguage.trim() || "the same language as the note";
+}
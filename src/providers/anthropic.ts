@@ -0,0 +1,77 @@
+import type { DeepNotesSettings } from "../settings";
+import type { ChatRequest, LLMProvider, ProviderCapabilities } from "./types";
+import { policyFor, readJson, requestWithRetry, RequestPolicy } from "./request";
+
+export class AnthropicProvider implements LLMProvider {
+	readonly id = "anthropic";
+	readonly label = "Anthropic";
+	readonly capabilities: ProviderCapabilities = {
+		chat: true,
+		vision: true,
+		embeddings: false,
+		jsonMode: false,
+		streaming: false,
+	};
+
+	private apiKey: string;
+	private policy: RequestPolicy;
+
+	constructor(settings: DeepNotesSettings) {
+		this.apiKey = settings.anthropicApiKey;
+		this.policy = policyFor(settings, "anthropic", "Anthropic");
+	}
+
+	supportsVision(model: string): boolean {
+		// Claude 3 and later accept images; claude-2.x and claude-instant do not
+		return !/^claude-(2|instant)/i.test(model);
+	}
+
+	async chat(request: ChatRequest): Promise<string> {
+		if (!this.apiKey) {
+			throw new Error("Anthropic API key is required but not set.");
+		}
+
+		// Build user content blocks: images first, then text
+		let contentBlocks: unknown;
+		if (request.images && request.images.length > 0) {
+			const parts: unknown[] = request.images.map((img) => ({
+				type: "image",
+				source: {
+					type: "base64",
+					media_type: img.mimeType,
+					data: img.base64,
+				},
+			}));
+			parts.push({ type: "text", text: request.userMessage });
+			contentBlocks = parts;
+		} else {
+			contentBlocks = request.userMessage;
+		}
+
+		const body: Record<string, unknown> = {
+			model: request.model,
+			max_tokens: 4096,
+			temperature: request.temperature ?? 0.7,
+			messages: [{ role: "user", content: contentBlocks }],
+		};
+		if (request.systemPrompt) {
+			body.system = request.systemPrompt;
+		}
+
+		const response = await requestWithRetry("https://api.anthropic.com/v1/messages", {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"x-api-key": this.apiKey,
+				"anthropic-version": "2023-06-01",
+				"anthropic-dangerous-direct-browser-access": "true",
+			},
+			body: JSON.stringify(body),
+			signal: request.signal,
+		}, this.policy);
+
+		const data = await readJson(response, this.policy.label);
+		const block = data.content?.[0];
+		return block?.text ?? "";
+	}
+}
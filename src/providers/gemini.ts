@@ -0,0 +1,139 @@
+import type { DeepNotesSettings } from "../settings";
+import type { ChatRequest, JsonSchema, LLMProvider, ProviderCapabilities } from "./types";
+import { readServerSentEvents } from "./stream";
+import { parseJson, policyFor, readJson, requestWithRetry, RequestPolicy } from "./request";
+
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+const GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+
+export class GeminiProvider implements LLMProvider {
+	readonly id = "gemini";
+	readonly label = "Google Gemini";
+	readonly capabilities: ProviderCapabilities = {
+		chat: true,
+		vision: true,
+		embeddings: true,
+		jsonMode: true,
+		streaming: true,
+	};
+	readonly embeddingModel = GEMINI_EMBEDDING_MODEL;
+
+	private apiKey: string;
+	private policy: RequestPolicy;
+
+	constructor(settings: DeepNotesSettings) {
+		this.apiKey = settings.geminiApiKey;
+		this.policy = policyFor(settings, "gemini", "Gemini");
+	}
+
+	supportsVision(): boolean {
+		// Every Gemini chat model is multimodal
+		return true;
+	}
+
+	async chat(request: ChatRequest): Promise<string> {
+		this.requireApiKey();
+		const url = `${GEMINI_API_BASE}/${request.model}:generateContent?key=${this.apiKey}`;
+		const response = await this.post(url, request);
+		const data = await readJson(response, this.policy.label);
+		return data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+	}
+
+	async streamChat(request: ChatRequest, onToken: (text: string) => void): Promise<string> {
+		this.requireApiKey();
+		const url = `${GEMINI_API_BASE}/${request.model}:streamGenerateContent?alt=sse&key=${this.apiKey}`;
+		const response = await this.post(url, request);
+
+		let full = "";
+		await readServerSentEvents(response, (payload) => {
+			const data = parseJson(payload, this.policy.label);
+			const piece: string = data.candidates?.[0]?.content?.parts?.[0]?.text ?? "";
+			if (piece) {
+				full += piece;
+				onToken(piece);
+			}
+		});
+		return full;
+	}
+
+	private async post(url: string, request: ChatRequest): Promise<Response> {
+		// Build parts: images first, then text
+		const parts: unknown[] = [];
+		for (const img of request.images ?? []) {
+			parts.push({
+				inlineData: {
+					mimeType: img.mimeType,
+					data: img.base64,
+				},
+			});
+		}
+		parts.push({ text: request.userMessage });
+
+		const generationConfig: Record<string, unknown> = { temperature: request.temperature ?? 0.7 };
+		if (request.responseSchema) {
+			generationConfig.responseMimeType = "application/json";
+			generationConfig.responseSchema = toGeminiSchema(request.responseSchema);
+		}
+
+		const body: Record<string, unknown> = {
+			contents: [
+				{
+					role: "user",
+					parts,
+				},
+			],
+			generationConfig,
+		};
+		if (request.systemPrompt) {
+			body.system_instruction = {
+				parts: [{ text: request.systemPrompt }],
+			};
+		}
+
+		return requestWithRetry(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(body),
+			signal: request.signal,
+		}, this.policy);
+	}
+
+	async embed(text: string, signal?: AbortSignal): Promise<number[]> {
+		this.requireApiKey();
+		const url = `${GEMINI_API_BASE}/${GEMINI_EMBEDDING_MODEL}:embedContent?key=${this.apiKey}`;
+		const response = await requestWithRetry(url, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({
+				content: { parts: [{ text }] },
+			}),
+			signal,
+		}, this.policy);
+
+		const data = await readJson(response, this.policy.label);
+		return data.embedding?.values ?? [];
+	}
+
+	private requireApiKey(): void {
+		if (!this.apiKey) {
+			throw new Error("Gemini API key is required but not set.");
+		}
+	}
+}
+
+// Gemini takes an OpenAPI-style schema with upper-case type names
+function toGeminiSchema(schema: JsonSchema): Record<string, unknown> {
+	const out: Record<string, unknown> = { type: schema.type.toUpperCase() };
+	if (schema.description) out.description = schema.description;
+	if (schema.enum) out.enum = schema.enum;
+	if (schema.required) out.required = schema.required;
+	if (schema.items) out.items = toGeminiSchema(schema.items);
+	if (schema.properties) {
+		const properties: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(schema.properties)) {
+			properties[key] = toGeminiSchema(value);
+		}
+		out.properties = properties;
+	}
+	return out;
+}
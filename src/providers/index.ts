@@ -0,0 +1,62 @@
+import { AIProvider, VISION_MODEL_BY_PROVIDER } from "../constants";
+import type { DeepNotesSettings } from "../settings";
+import type { LLMProvider } from "./types";
+import { GeminiProvider } from "./gemini";
+import { OpenAIProvider, OpenAICompatibleProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+import { OllamaProvider } from "./ollama";
+
+export type { LLMProvider, ProviderCapabilities, ChatRequest, JsonSchema } from "./types";
+export { ProviderError, describeError } from "./request";
+export type { ProviderErrorKind } from "./request";
+
+type ProviderFactory = (settings: DeepNotesSettings) => LLMProvider;
+
+const registry = new Map<AIProvider, ProviderFactory>();
+
+export function registerProvider(id: AIProvider, factory: ProviderFactory): void {
+	registry.set(id, factory);
+}
+
+registerProvider("gemini", (settings) => new GeminiProvider(settings));
+registerProvider("openai", (settings) => new OpenAIProvider(settings));
+registerProvider("anthropic", (settings) => new AnthropicProvider(settings));
+registerProvider("ollama", (settings) => new OllamaProvider(settings));
+registerProvider("openai-compatible", (settings) => new OpenAICompatibleProvider(settings));
+
+// Providers are cheap to build, so a fresh one per call always sees the latest settings
+export function getProvider(id: AIProvider, settings: DeepNotesSettings): LLMProvider {
+	const factory = registry.get(id);
+	if (!factory) {
+		throw new Error(`Unknown AI provider "${id}".`);
+	}
+	return factory(settings);
+}
+
+export function getChatProvider(settings: DeepNotesSettings): LLMProvider {
+	return getProvider(settings.provider, settings);
+}
+
+export function getVisionProvider(settings: DeepNotesSettings): LLMProvider {
+	return getProvider(settings.imageOcrProvider || "ollama", settings);
+}
+
+export function getEmbeddingProvider(settings: DeepNotesSettings): LLMProvider {
+	const provider = getProvider(settings.embeddingProvider, settings);
+	if (!provider.capabilities.embeddings || !provider.embed) {
+		throw new Error(`${provider.label} does not support embeddings.`);
+	}
+	return provider;
+}
+
+// Model used for the "Scan Images" button; local providers let the user pick one
+export function getVisionModel(settings: DeepNotesSettings): string {
+	switch (settings.imageOcrProvider || "ollama") {
+		case "ollama":
+			return settings.imageOcrVisionModel || "llava";
+		case "openai-compatible":
+			return settings.imageOcrVisionModel || settings.model;
+		default:
+			return VISION_MODEL_BY_PROVIDER[settings.imageOcrProvider];
+	}
+}
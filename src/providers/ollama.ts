@@ -0,0 +1,190 @@
+import type { DeepNotesSettings } from "../settings";
+import type { ChatRequest, LLMProvider, ProviderCapabilities } from "./types";
+import { readLines } from "./stream";
+import { parseJson, policyFor, ProviderError, readJson, requestWithRetry, RequestPolicy } from "./request";
+import { isAbortError } from "../abort";
+import { getContextWindow } from "../tokenBudget";
+
+const DEFAULT_OLLAMA_BASE_URL = "http://127.0.0.1:11434";
+
+// Families published on ollama.com with image input support
+const OLLAMA_VISION_MODEL = /(llava|bakllava|vision|moondream|minicpm-v|qwen2\.5vl|qwen2-vl|qwen-vl|gemma3|llama4|mistral-small3\.1|granite3\.2-vision)/i;
+
+export class OllamaProvider implements LLMProvider {
+	readonly id = "ollama";
+	readonly label = "Ollama";
+	readonly capabilities: ProviderCapabilities = {
+		chat: true,
+		vision: true,
+		embeddings: true,
+		jsonMode: true,
+		streaming: true,
+	};
+
+	private baseUrl: string;
+	readonly embeddingModel: string;
+	private policy: RequestPolicy;
+	private settings: DeepNotesSettings;
+
+	constructor(settings: DeepNotesSettings) {
+		this.settings = settings;
+		this.baseUrl = (settings.ollamaBaseUrl || DEFAULT_OLLAMA_BASE_URL).replace(/\/$/, "");
+		this.embeddingModel = settings.ollamaEmbeddingModel || "nomic-embed-text";
+		this.policy = policyFor(settings, "ollama", "Ollama");
+	}
+
+	supportsVision(model: string): boolean {
+		return OLLAMA_VISION_MODEL.test(model);
+	}
+
+	async chat(request: ChatRequest): Promise<string> {
+		const response = await this.openChat(request, false);
+		const data = await readJson(response, this.policy.label);
+		return data.message?.content ?? "";
+	}
+
+	// Ollama streams newline-delimited JSON objects, one per token batch
+	async streamChat(request: ChatRequest, onToken: (text: string) => void): Promise<string> {
+		const response = await this.openChat(request, true);
+
+		let full = "";
+		await readLines(response, (line) => {
+			if (!line.trim()) return;
+			const data = parseJson(line, this.policy.label);
+			if (data.error) {
+				throw new ProviderError(`Ollama API error: ${data.error}`, "server", this.policy.label);
+			}
+			const piece: string = data.message?.content ?? "";
+			if (piece) {
+				full += piece;
+				onToken(piece);
+			}
+		});
+		return full;
+	}
+
+	// Calls Ollama's local chat API, retrying with an installed tag of the same model if needed
+	private async openChat(request: ChatRequest, stream: boolean): Promise<Response> {
+		const doChat = async (targetModel: string) => {
+			const userMsg: Record<string, unknown> = { role: "user", content: request.userMessage };
+			if (request.images && request.images.length > 0) {
+				userMsg.images = request.images.map((img) => img.base64);
+			}
+			const messages: unknown[] = [];
+			if (request.systemPrompt) {
+				messages.push({ role: "system", content: request.systemPrompt });
+			}
+			messages.push(userMsg);
+
+			const body: Record<string, unknown> = {
+				model: targetModel,
+				stream,
+				messages,
+			};
+			// Ollama loads models with a small window unless told otherwise
+			const options: Record<string, unknown> = { num_ctx: getContextWindow(this.settings, "ollama", targetModel) };
+			if (request.temperature !== undefined) {
+				options.temperature = request.temperature;
+			}
+			body.options = options;
+			if (request.responseSchema) {
+				body.format = request.responseSchema;
+			}
+
+			return requestWithRetry(`${this.baseUrl}/api/chat`, {
+				method: "POST",
+				headers: {
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify(body),
+				signal: request.signal,
+			}, this.policy);
+		};
+
+		const model = request.model;
+		try {
+			return await doChat(model);
+		} catch (e) {
+			if (!(e instanceof ProviderError) || e.kind !== "model-missing") throw e;
+		}
+
+		const fallbackModel = await this.findFallbackModel(model, request.signal);
+		if (fallbackModel) {
+			try {
+				return await doChat(fallbackModel);
+			} catch (e) {
+				if (!(e instanceof ProviderError) || e.kind !== "model-missing") throw e;
+			}
+		}
+
+		throw new ProviderError(
+			`Ollama model "${model}" was not found locally. Try model "${model.split(":")[0]}:latest" or run: ollama pull ${model}`,
+			"model-missing",
+			this.policy.label,
+			404
+		);
+	}
+
+	async embed(text: string, signal?: AbortSignal): Promise<number[]> {
+		const model = this.embeddingModel;
+		let response: Response;
+		try {
+			response = await requestWithRetry(`${this.baseUrl}/api/embeddings`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({
+					model: model,
+					prompt: text,
+				}),
+				signal,
+			}, this.policy);
+		} catch (e) {
+			// Handle model not found error gracefully
+			if (e instanceof ProviderError && e.kind === "model-missing") {
+				throw new ProviderError(
+					`Ollama model "${model}" was not found locally. Run: ollama pull ${model}`,
+					"model-missing",
+					this.policy.label,
+					404
+				);
+			}
+			throw e;
+		}
+
+		const data = await readJson(response, this.policy.label);
+		if (!data.embedding || !Array.isArray(data.embedding)) {
+			throw new ProviderError("Ollama response missing 'embedding' array.", "malformed", this.policy.label);
+		}
+		return data.embedding;
+	}
+
+	private async findFallbackModel(model: string, signal?: AbortSignal): Promise<string | null> {
+		try {
+			const tagsResponse = await fetch(`${this.baseUrl}/api/tags`, { signal });
+			if (!tagsResponse.ok) {
+				return null;
+			}
+
+			const tagsData = await tagsResponse.json();
+			const modelNames: string[] = Array.isArray(tagsData.models)
+				? tagsData.models.map((m: { name?: string }) => m.name ?? "").filter(Boolean)
+				: [];
+
+			if (modelNames.length === 0) {
+				return null;
+			}
+
+			const base = model.split(":")[0];
+			const latest = `${base}:latest`;
+			if (modelNames.includes(latest)) {
+				return latest;
+			}
+
+			const firstMatchingTag = modelNames.find((name) => name.startsWith(`${base}:`));
+			return firstMatchingTag ?? null;
+		} catch (e) {
+			if (isAbortError(e)) throw e;
+			return null;
+		}
+	}
+}
@@ -0,0 +1,193 @@
+import type { AIProvider } from "../constants";
+import { DeepNotesSettings, getOpenAICompatibleBaseUrl } from "../settings";
+import type { ChatRequest, JsonSchema, LLMProvider, ProviderCapabilities } from "./types";
+import { readServerSentEvents } from "./stream";
+import { parseJson, policyFor, ProviderError, readJson, requestWithRetry, RequestPolicy } from "./request";
+
+const OPENAI_VISION_MODEL = /^(gpt-4o|gpt-4\.1|gpt-4-turbo|gpt-5|o1|o3|o4)/i;
+// Reasoning models reject any temperature but the default
+const OPENAI_REASONING_MODEL = /^(o\d|gpt-5)/i;
+
+export class OpenAIProvider implements LLMProvider {
+	readonly id: AIProvider = "openai";
+	readonly label: string = "OpenAI";
+	readonly capabilities: ProviderCapabilities = {
+		chat: true,
+		vision: true,
+		embeddings: false,
+		jsonMode: true,
+		streaming: true,
+	};
+
+	protected apiKey: string;
+	protected baseUrl: string;
+	protected policy: RequestPolicy;
+
+	constructor(settings: DeepNotesSettings, baseUrl = "https://api.openai.com/v1", apiKey = settings.openaiApiKey) {
+		this.apiKey = apiKey;
+		this.baseUrl = baseUrl;
+		this.policy = policyFor(settings, "openai", "OpenAI");
+	}
+
+	supportsVision(model: string): boolean {
+		return OPENAI_VISION_MODEL.test(model);
+	}
+
+	async chat(request: ChatRequest): Promise<string> {
+		const response = await this.post(request, false);
+		const data = await readJson(response, this.policy.label);
+		return data.choices?.[0]?.message?.content ?? "";
+	}
+
+	async streamChat(request: ChatRequest, onToken: (text: string) => void): Promise<string> {
+		const response = await this.post(request, true);
+
+		let full = "";
+		await readServerSentEvents(response, (payload) => {
+			const data = parseJson(payload, this.policy.label);
+			const piece: string = data.choices?.[0]?.delta?.content ?? "";
+			if (piece) {
+				full += piece;
+				onToken(piece);
+			}
+		});
+		return full;
+	}
+
+	private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+		this.requireApiKey();
+
+		// Build user content: text + optional images
+		let userContent: unknown;
+		if (request.images && request.images.length > 0) {
+			const parts: unknown[] = request.images.map((img) => ({
+				type: "image_url",
+				image_url: { url: `data:${img.mimeType};base64,${img.base64}` },
+			}));
+			parts.push({ type: "text", text: request.userMessage });
+			userContent = parts;
+		} else {
+			userContent = request.userMessage;
+		}
+
+		const messages: unknown[] = [];
+		if (request.systemPrompt) {
+			messages.push({ role: "system", content: request.systemPrompt });
+		}
+		messages.push({ role: "user", content: userContent });
+
+		const body: Record<string, unknown> = {
+			model: request.model,
+			messages,
+			stream,
+		};
+		if (request.temperature !== undefined && !OPENAI_REASONING_MODEL.test(request.model)) {
+			body.temperature = request.temperature;
+		}
+		if (request.responseSchema) {
+			body.response_format = {
+				type: "json_schema",
+				json_schema: { name: "response", strict: true, schema: toStrictSchema(request.responseSchema) },
+			};
+		}
+
+		return requestWithRetry(`${this.baseUrl}/chat/completions`, {
+			method: "POST",
+			headers: this.headers(),
+			body: JSON.stringify(body),
+			signal: request.signal,
+		}, this.policy);
+	}
+
+	protected headers(): Record<string, string> {
+		const headers: Record<string, string> = { "Content-Type": "application/json" };
+		if (this.apiKey) {
+			headers.Authorization = `Bearer ${this.apiKey}`;
+		}
+		return headers;
+	}
+
+	protected requireApiKey(): void {
+		if (!this.apiKey) {
+			throw new Error("OpenAI API key is required but not set.");
+		}
+	}
+}
+
+/**
+ * Any server speaking the OpenAI /v1 protocol (LM Studio, llama.cpp server, vLLM).
+ * The bearer token is optional and the served models are unknown up front.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+	readonly id: AIProvider = "openai-compatible";
+	readonly label: string = "OpenAI-compatible";
+	readonly capabilities: ProviderCapabilities = {
+		chat: true,
+		vision: true,
+		embeddings: true,
+		jsonMode: true,
+		streaming: true,
+	};
+
+	readonly embeddingModel: string;
+
+	constructor(settings: DeepNotesSettings) {
+		super(settings, getOpenAICompatibleBaseUrl(settings), settings.openaiCompatibleApiKey);
+		this.embeddingModel = settings.openaiCompatibleEmbeddingModel;
+		this.policy = policyFor(settings, "openai-compatible", "OpenAI-compatible");
+	}
+
+	supportsVision(): boolean {
+		// The server decides; we cannot tell from the model name
+		return true;
+	}
+
+	async embed(text: string, signal?: AbortSignal): Promise<number[]> {
+		if (!this.embeddingModel) {
+			throw new Error("No embedding model set for the OpenAI-compatible endpoint.");
+		}
+
+		const response = await requestWithRetry(`${this.baseUrl}/embeddings`, {
+			method: "POST",
+			headers: this.headers(),
+			body: JSON.stringify({
+				model: this.embeddingModel,
+				input: text,
+			}),
+			signal,
+		}, this.policy);
+
+		const data = await readJson(response, this.policy.label);
+		const embedding = data.data?.[0]?.embedding;
+		if (!Array.isArray(embedding)) {
+			throw new ProviderError("OpenAI-compatible response missing 'data[0].embedding' array.", "malformed", this.policy.label);
+		}
+		return embedding;
+	}
+
+	protected requireApiKey(): void {
+		// Local servers usually run without a token
+	}
+}
+
+/**
+ * Strict structured output needs every property listed in "required" and no
+ * extra properties; optional properties become nullable instead.
+ */
+function toStrictSchema(schema: JsonSchema, nullable = false): Record<string, unknown> {
+	const out: Record<string, unknown> = { type: nullable ? [schema.type, "null"] : schema.type };
+	if (schema.description) out.description = schema.description;
+	if (schema.enum) out.enum = nullable ? [...schema.enum, null] : schema.enum;
+	if (schema.items) out.items = toStrictSchema(schema.items);
+	if (schema.properties) {
+		const required = schema.required ?? [];
+		const properties: Record<string, unknown> = {};
+		for (const [key, value] of Object.entries(schema.properties)) {
+			properties[key] = toStrictSchema(value, !required.includes(key));
+		}
+		out.properties = properties;
+		out.required = Object.keys(schema.properties);
+		out.additionalProperties = false;
+	}
+	return out;
+}
@@ -0,0 +1,221 @@
+import type { AIProvider } from "../constants";
+import type { DeepNotesSettings } from "../settings";
+import { isAbortError } from "../abort";
+
+export type ProviderErrorKind =
+	| "auth" // missing or rejected API key
+	| "quota" // 429 rate limit or exhausted quota
+	| "model-missing" // model not installed / not available to this key
+	| "network" // server unreachable
+	| "server" // 5xx or overloaded
+	| "invalid-request" // other 4xx
+	| "malformed"; // response we could not read
+
+export class ProviderError extends Error {
+	constructor(
+		message: string,
+		readonly kind: ProviderErrorKind,
+		readonly provider: string,
+		readonly status?: number,
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+		this.name = "ProviderError";
+	}
+
+	get retryable(): boolean {
+		return this.kind === "quota" || this.kind === "network" || this.kind === "server";
+	}
+}
+
+export interface RequestPolicy {
+	// Provider name used in error messages
+	label: string;
+	// Requests sharing a key share one rate limit
+	limiterKey: string;
+	// 0 disables client-side rate limiting
+	requestsPerMinute: number;
+	maxRetries: number;
+}
+
+const MAX_BACKOFF_MS = 30000;
+const MAX_RETRY_AFTER_MS = 120000;
+
+export function policyFor(settings: DeepNotesSettings, provider: AIProvider, label: string): RequestPolicy {
+	return {
+		label,
+		limiterKey: provider,
+		requestsPerMinute: settings.requestsPerMinute?.[provider] ?? 0,
+		maxRetries: settings.maxRetries ?? 3,
+	};
+}
+
+/**
+ * fetch() with a per-provider rate limit, exponential backoff and Retry-After
+ * support. Resolves with OK responses only; everything else becomes a ProviderError.
+ */
+export async function requestWithRetry(url: string, init: RequestInit, policy: RequestPolicy): Promise<Response> {
+	const signal = init.signal ?? undefined;
+
+	for (let attempt = 0; ; attempt++) {
+		await acquireSlot(policy.limiterKey, policy.requestsPerMinute, signal);
+
+		let error: ProviderError;
+		try {
+			const response = await fetch(url, init);
+			if (response.ok) {
+				return response;
+			}
+			error = await toProviderError(response, policy.label);
+		} catch (e) {
+			if (isAbortError(e) || e instanceof ProviderError) throw e;
+			error = new ProviderError(
+				`${policy.label} is unreachable: ${e instanceof Error ? e.message : String(e)}`,
+				"network",
+				policy.label
+			);
+		}
+
+		if (!error.retryable || attempt >= policy.maxRetries) {
+			throw error;
+		}
+
+		const delay = error.retryAfterMs ?? backoffDelay(attempt);
+		console.warn(
+			`[DeepNotes] ${policy.label} request failed (${error.kind}), retry ${attempt + 1}/${policy.maxRetries} in ${Math.round(delay / 1000)}s`
+		);
+		await sleep(delay, signal);
+	}
+}
+
+// Parses a JSON body, reporting unreadable responses as "malformed"
+export function parseJson(text: string, label: string): any {
+	try {
+		return JSON.parse(text);
+	} catch {
+		throw new ProviderError(`${label} returned a response that is not valid JSON.`, "malformed", label);
+	}
+}
+
+export async function readJson(response: Response, label: string): Promise<any> {
+	return parseJson(await response.text(), label);
+}
+
+// User-facing explanation for the error categories above
+export function describeError(e: unknown): string {
+	if (e instanceof ProviderError) {
+		switch (e.kind) {
+			case "auth":
+				return `${e.provider} rejected the request. Check your API key in Deep Notes settings.`;
+			case "quota":
+				return `${e.provider} rate limit or quota exceeded. Wait a minute, or lower the requests-per-minute limit in Deep Notes settings.`;
+			case "model-missing":
+				return e.message;
+			case "network":
+				return `Could not reach ${e.provider}. Check your connection or the base URL in Deep Notes settings.`;
+			case "server":
+				return `${e.provider} is having problems (${e.status ?? "no status"}). Try again later.`;
+			case "malformed":
+				return `${e.provider} returned a response Deep Notes could not read.`;
+			default:
+				return e.message;
+		}
+	}
+	return e instanceof Error ? e.message : String(e);
+}
+
+async function toProviderError(response: Response, label: string): Promise<ProviderError> {
+	const body = await response.text().catch(() => "");
+	const detail = extractErrorMessage(body);
+	const message = `${label} API error (${response.status}): ${detail}`;
+	const status = response.status;
+
+	if (status === 401 || status === 403 || /api key not valid|invalid api key|api_key_invalid|invalid x-api-key/i.test(body)) {
+		return new ProviderError(message, "auth", label, status);
+	}
+	if (status === 429) {
+		return new ProviderError(message, "quota", label, status, parseRetryAfter(response, body));
+	}
+	if (status === 404 && /model/i.test(body)) {
+		return new ProviderError(message, "model-missing", label, status);
+	}
+	if (status === 408 || status >= 500) {
+		return new ProviderError(message, "server", label, status, parseRetryAfter(response, body));
+	}
+	return new ProviderError(message, "invalid-request", label, status);
+}
+
+// Gemini, OpenAI and Anthropic all wrap errors as { error: { message } }; Ollama as { error: "..." }
+function extractErrorMessage(body: string): string {
+	try {
+		const json = JSON.parse(body);
+		if (typeof json.error === "string") return json.error;
+		if (json.error && typeof json.error.message === "string") return json.error.message;
+	} catch {
+		// not JSON
+	}
+	return body;
+}
+
+function parseRetryAfter(response: Response, body: string): number | undefined {
+	const header = response.headers.get("retry-after");
+	if (header) {
+		const seconds = Number(header);
+		if (!isNaN(seconds)) {
+			return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+		}
+		const date = Date.parse(header);
+		if (!isNaN(date)) {
+			return Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_AFTER_MS);
+		}
+	}
+
+	// Gemini reports the delay in the body: "retryDelay": "23s"
+	const match = body.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+	if (match) {
+		return Math.min(parseFloat(match[1]) * 1000, MAX_RETRY_AFTER_MS);
+	}
+	return undefined;
+}
+
+function backoffDelay(attempt: number): number {
+	const base = Math.min(1000 * 2 ** attempt, MAX_BACKOFF_MS);
+	return base / 2 + Math.random() * (base / 2);
+}
+
+// Timestamps of recent requests per limiter key, for a sliding one-minute window
+const recentRequests = new Map<string, number[]>();
+
+async function acquireSlot(key: string, requestsPerMinute: number, signal?: AbortSignal): Promise<void> {
+	if (!requestsPerMinute || requestsPerMinute <= 0) return;
+
+	while (true) {
+		const now = Date.now();
+		const recent = (recentRequests.get(key) ?? []).filter((t) => now - t < 60000);
+		if (recent.length < requestsPerMinute) {
+			recent.push(now);
+			recentRequests.set(key, recent);
+			return;
+		}
+		recentRequests.set(key, recent);
+		await sleep(60000 - (now - recent[0]) + 50, signal);
+	}
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(new DOMException("The operation was aborted.", "AbortError"));
+			return;
+		}
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new DOMException("The operation was aborted.", "AbortError"));
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
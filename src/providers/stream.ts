@@ -0,0 +1,46 @@
+// Reads a streamed response body line by line (NDJSON, SSE)
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<void> {
+	if (!response.body) {
+		throw new Error("Streaming response has no body.");
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+
+			let newline = buffer.indexOf("\n");
+			while (newline !== -1) {
+				onLine(buffer.slice(0, newline).replace(/\r$/, ""));
+				buffer = buffer.slice(newline + 1);
+				newline = buffer.indexOf("\n");
+			}
+		}
+
+		buffer += decoder.decode();
+		if (buffer.length > 0) {
+			onLine(buffer);
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+// Reads the payload of each "data:" line of a server-sent event stream
+export async function readServerSentEvents(response: Response, onData: (payload: string) => void): Promise<void> {
+	let done = false;
+	await readLines(response, (line) => {
+		if (done || !line.startsWith("data:")) return;
+		const payload = line.slice(5).trim();
+		if (payload === "[DONE]") {
+			done = true;
+			return;
+		}
+		if (payload) onData(payload);
+	});
+}
@@ -0,0 +1,49 @@
+import type { AIProvider } from "../constants";
+import type { ImagePayload } from "../ocr";
+
+export interface ProviderCapabilities {
+	chat: boolean;
+	vision: boolean;
+	embeddings: boolean;
+	jsonMode: boolean;
+	streaming: boolean;
+}
+
+// The subset of JSON Schema that every structured-output API understands
+export interface JsonSchema {
+	type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+	description?: string;
+	properties?: Record<string, JsonSchema>;
+	required?: string[];
+	items?: JsonSchema;
+	enum?: string[];
+}
+
+export interface ChatRequest {
+	model: string;
+	systemPrompt: string;
+	userMessage: string;
+	images?: ImagePayload[];
+	temperature?: number;
+	// Constrains the reply to JSON of this shape on providers with jsonMode
+	responseSchema?: JsonSchema;
+	signal?: AbortSignal;
+}
+
+/**
+ * A single AI backend. Each provider reads its own credentials and base URL
+ * from the settings it was created with, so callers only pick a provider id.
+ */
+export interface LLMProvider {
+	readonly id: AIProvider;
+	readonly label: string;
+	readonly capabilities: ProviderCapabilities;
+	// Whether the given model can accept images (the provider may support vision while a model does not)
+	supportsVision(model: string): boolean;
+	chat(request: ChatRequest): Promise<string>;
+	// Streams the reply through onToken and resolves with the full text
+	streamChat?(request: ChatRequest, onToken: (text: string) => void): Promise<string>;
+	embed?(text: string, signal?: AbortSignal): Promise<number[]>;
+	// Model behind embed(), for keying per-model data such as similarity thresholds
+	readonly embeddingModel?: string;
+}
@@ -0,0 +1,21 @@
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+// Picks a markdown or JSON file to load questions from
+export class QuestionBankModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private onChoose: (file: TFile) => void) {
+		super(app);
+		this.setPlaceholder("Choose a question bank (.md or .json)");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter((file) => file.extension === "md" || file.extension === "json");
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
@@ -0,0 +1,170 @@
+import type { DeepNotesItem, EvaluationFeedback } from "./ai";
+
+export type QuestionFormat = "open" | "multiple-choice" | "cloze" | "true-false" | "ordering";
+
+export const FORMAT_LABELS: Record<QuestionFormat, string> = {
+	open: "Open question",
+	"multiple-choice": "Multiple choice",
+	cloze: "Cloze deletion",
+	"true-false": "True / false",
+	ordering: "Ordering",
+};
+
+export const QUESTION_FORMATS = Object.keys(FORMAT_LABELS) as QuestionFormat[];
+
+// Field-level instructions per format, joined into the {{formats}} prompt variable
+const FORMAT_INSTRUCTIONS: Record<QuestionFormat, string> = {
+	open: `"open": a free-text question. "sample_answer" is the ideal answer.`,
+	"multiple-choice": `"multiple-choice": "choices" holds 4 options (one correct answer and three plausible distractors) and "correct_choice" is the 0-based index of the correct one. "sample_answer" explains why it is correct.`,
+	cloze: `"cloze": "source_excerpt" is a verbatim sentence from the note and "cloze_answer" is a key term copied exactly from that sentence, which the user must fill in. "text" is a short hint. "sample_answer" explains the term.`,
+	"true-false": `"true-false": "text" is a statement about the note and "is_true" says whether it is correct. Make about half of the statements false. "sample_answer" explains.`,
+	ordering: `"ordering": "steps" lists 3 to 6 steps of a process from the note in the correct order. "text" asks the user to put them in order. "sample_answer" summarizes the sequence.`,
+};
+
+export interface FormatGrade {
+	rating: EvaluationFeedback["rating"];
+	score: number;
+	explanation: string;
+	suggestedAnswer: string;
+}
+
+export function getItemFormat(item: DeepNotesItem): QuestionFormat {
+	return item.format ?? "open";
+}
+
+// The {{formats}} prompt variable for the formats enabled in settings
+export function describeFormats(formats: QuestionFormat[]): string {
+	const enabled = formats.length > 0 ? formats : ["open" as QuestionFormat];
+	return enabled.map((f) => `- ${FORMAT_INSTRUCTIONS[f]}`).join("\n");
+}
+
+// The correct answer of a closed format, as shown after grading; null for open questions
+export function answerKey(item: DeepNotesItem): string | null {
+	switch (getItemFormat(item)) {
+		case "multiple-choice":
+			return item.choices?.[item.correctChoice ?? -1] ?? "";
+		case "true-false":
+			return item.isTrue ? "True" : "False";
+		case "cloze":
+			return item.clozeAnswer ?? "";
+		case "ordering":
+			return (item.steps ?? []).join(" → ");
+		default:
+			return null;
+	}
+}
+
+/**
+ * Grades closed formats by comparing with the stored answer. Returns null for
+ * open questions, which are graded by embedding similarity instead.
+ */
+export function gradeClosedItem(item: DeepNotesItem, response: string): FormatGrade | null {
+	const suggestedAnswer = answerKey(item);
+	if (suggestedAnswer === null) return null;
+
+	switch (getItemFormat(item)) {
+		case "multiple-choice":
+			return response.trim() === suggestedAnswer
+				? { rating: "correct", score: 100, explanation: "Correct choice.", suggestedAnswer }
+				: { rating: "incorrect", score: 0, explanation: `You chose "${response.trim()}".`, suggestedAnswer };
+		case "true-false": {
+			const correct = item.isTrue ? "true" : "false";
+			return response.trim().toLowerCase() === correct
+				? { rating: "correct", score: 100, explanation: `Correct, the statement is ${correct}.`, suggestedAnswer }
+				: { rating: "incorrect", score: 0, explanation: `The statement is ${correct}.`, suggestedAnswer };
+		}
+		case "cloze": {
+			const expected = normalizeAnswer(item.clozeAnswer ?? "");
+			const given = normalizeAnswer(response);
+			const distance = editDistance(expected, given);
+			if (distance === 0) {
+				return { rating: "correct", score: 100, explanation: "Exact match.", suggestedAnswer };
+			}
+			// Allow a typo or two in longer terms
+			if (distance <= Math.floor(expected.length / 6)) {
+				return { rating: "partial", score: 75, explanation: "Close, check the spelling.", suggestedAnswer };
+			}
+			return { rating: "incorrect", score: 0, explanation: `You wrote "${response.trim()}".`, suggestedAnswer };
+		}
+		case "ordering": {
+			const steps = item.steps ?? [];
+			const given = response.split("\n").map((s) => s.trim()).filter(Boolean);
+			const score = Math.round(pairwiseOrderScore(steps, given) * 100);
+			const rating = score === 100 ? "correct" : score >= 60 ? "partial" : "incorrect";
+			return { rating, score, explanation: `${score}% of step pairs in the right order.`, suggestedAnswer };
+		}
+		default:
+			return null;
+	}
+}
+
+// The cloze sentence split around the blank, or null if the answer is not in the excerpt
+export function splitCloze(item: DeepNotesItem): { before: string; after: string } | null {
+	const excerpt = item.sourceExcerpt ?? "";
+	const answer = item.clozeAnswer ?? "";
+	const index = answer ? excerpt.toLowerCase().indexOf(answer.toLowerCase()) : -1;
+	if (index < 0) return null;
+	return { before: excerpt.slice(0, index), after: excerpt.slice(index + answer.length) };
+}
+
+/**
+ * Steps in the order they are first shown to the user. Deterministic per item so
+ * re-renders keep the same order, and never already solved.
+ */
+export function initialStepOrder(item: DeepNotesItem): string[] {
+	const steps = item.steps ?? [];
+	const shuffled = [...steps].sort((a, b) => hash(item.text + a) - hash(item.text + b));
+	if (steps.length > 1 && shuffled.every((s, i) => s === steps[i])) {
+		shuffled.push(shuffled.shift()!);
+	}
+	return shuffled;
+}
+
+// Share of step pairs whose relative order matches the correct order
+function pairwiseOrderScore(correct: string[], given: string[]): number {
+	const position = new Map(given.map((step, i) => [step, i]));
+	let pairs = 0;
+	let inOrder = 0;
+	for (let i = 0; i < correct.length; i++) {
+		for (let j = i + 1; j < correct.length; j++) {
+			pairs++;
+			const a = position.get(correct[i]);
+			const b = position.get(correct[j]);
+			if (a !== undefined && b !== undefined && a < b) inOrder++;
+		}
+	}
+	return pairs === 0 ? 0 : inOrder / pairs;
+}
+
+function normalizeAnswer(text: string): string {
+	return text
+		.normalize("NFKD")
+		.replace(/[\u0300-\u036f]/g, "")
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim();
+}
+
+function editDistance(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+function hash(text: string): number {
+	let h = 0;
+	for (let i = 0; i < text.length; i++) {
+		h = (h * 31 + text.charCodeAt(i)) | 0;
+	}
+	return h;
+}
@@ -0,0 +1,206 @@
+import type { DeepNotesItem } from "./ai";
+import { validateDeepNotesItem } from "./itemSchema";
+
+export interface QuestionImport {
+	items: DeepNotesItem[];
+	// Entries that were skipped and why
+	errors: string[];
+}
+
+export interface ManualQuestion {
+	text: string;
+	sampleAnswer?: string;
+	sourceExcerpt?: string;
+	keyConcepts?: string[];
+}
+
+// Headings that start a question bank section in markdown
+const SECTION_HEADING = /^(#{1,6})\s+(questions|question bank|quiz)\s*$/i;
+const CALLOUT_START = /^>\s*\[!(question|faq|help)\][+-]?\s*(.*)$/i;
+const LIST_ITEM = /^([-*+]|\d+[.)])\s+(.*)$/;
+const FIELD = /^\**(answer|sample answer|excerpt|source|key points|concepts|response)\**\s*:\**\s*(.*)$/i;
+
+// "response" holds the user's answer in callouts added by "Add to Note" and is dropped
+type Field = "text" | "answer" | "excerpt" | "concepts" | "response";
+
+const FIELD_NAMES: Record<string, Field> = {
+	answer: "answer",
+	"sample answer": "answer",
+	excerpt: "excerpt",
+	source: "excerpt",
+	"key points": "concepts",
+	concepts: "concepts",
+	response: "response",
+};
+
+export function createManualItem(question: ManualQuestion): DeepNotesItem {
+	return toItem(
+		{
+			text: question.text,
+			answer: question.sampleAnswer ?? "",
+			excerpt: question.sourceExcerpt ?? "",
+			concepts: (question.keyConcepts ?? []).join("\n"),
+			response: "",
+		},
+		"manual"
+	);
+}
+
+export function parseQuestionBank(content: string, extension: string): QuestionImport {
+	return extension.toLowerCase() === "json" ? parseJsonQuestions(content) : parseMarkdownQuestions(content);
+}
+
+/**
+ * A JSON question bank: an array of questions, or an object with an "items" or
+ * "questions" array. Questions use the same fields as generated ones
+ * ("text", "sample_answer", "format", ...); "question" and "answer" are accepted
+ * as shorthands and "type" defaults to knowledge expansion.
+ */
+export function parseJsonQuestions(content: string): QuestionImport {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(content);
+	} catch (e) {
+		return { items: [], errors: [`Invalid JSON: ${e instanceof Error ? e.message : e}`] };
+	}
+
+	const root = parsed as Record<string, unknown> | null;
+	const entries = Array.isArray(parsed) ? parsed : root?.items ?? root?.questions;
+	if (!Array.isArray(entries)) {
+		return { items: [], errors: ['Expected an array of questions, or an object with an "items" array.'] };
+	}
+
+	const items: DeepNotesItem[] = [];
+	const errors: string[] = [];
+	entries.forEach((entry, i) => {
+		const raw: Record<string, unknown> = typeof entry === "string" ? { text: entry } : { ...(entry as Record<string, unknown>) };
+		raw.type = raw.type ?? "knowledge-expansion";
+		raw.text = raw.text ?? raw.question;
+		raw.sample_answer = raw.sample_answer ?? raw.answer;
+		const result = validateDeepNotesItem(raw, false);
+		if (result.item) {
+			items.push({ ...result.item, origin: "imported" });
+		}
+		errors.push(...result.errors.map((e) => `Question ${i + 1}: ${e}`));
+	});
+	return { items, errors };
+}
+
+/**
+ * Questions from markdown: `> [!question]` callouts anywhere in the file, and
+ * list items under a "Questions" heading. Either can hold "Answer:", "Excerpt:"
+ * and "Key points:" lines; a list item may also be written as `question::answer`.
+ */
+export function parseMarkdownQuestions(content: string): QuestionImport {
+	const lines = content.split(/\r?\n/);
+	const items: DeepNotesItem[] = [];
+
+	let sectionLevel = 0;
+	let current: Record<Field, string> | null = null;
+	let field: Field = "text";
+	const flush = () => {
+		if (current && current.text.trim()) {
+			items.push(toItem(current, "imported"));
+		}
+		current = null;
+	};
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+
+		const callout = line.match(CALLOUT_START);
+		if (callout) {
+			flush();
+			const body: string[] = [];
+			while (i + 1 < lines.length && lines[i + 1].startsWith(">")) {
+				body.push(lines[++i].replace(/^>\s?/, ""));
+			}
+			const parsed = parseFields(body);
+			// A generic title ("Chapter 2") gives way to a question written in the body
+			if (!parsed.text.trim()) parsed.text = callout[2];
+			if (parsed.text.trim()) items.push(toItem(parsed, "imported"));
+			continue;
+		}
+
+		const heading = line.match(/^(#{1,6})\s/);
+		if (heading) {
+			flush();
+			const section = line.match(SECTION_HEADING);
+			if (section) {
+				sectionLevel = section[1].length;
+			} else if (heading[1].length <= sectionLevel) {
+				sectionLevel = 0;
+			}
+			continue;
+		}
+		if (sectionLevel === 0) continue;
+
+		// A new question starts at each unindented list item
+		const listItem = line.match(LIST_ITEM);
+		if (listItem && !/^\s/.test(line)) {
+			flush();
+			const [text, answer] = splitInlineAnswer(listItem[2]);
+			current = { text, answer, excerpt: "", concepts: "", response: "" };
+			field = "text";
+			continue;
+		}
+		if (!current || !line.trim()) continue;
+
+		const entry = line.trim().replace(LIST_ITEM, "$2");
+		const fieldLine = entry.match(FIELD);
+		if (fieldLine) {
+			field = FIELD_NAMES[fieldLine[1].toLowerCase()];
+			appendLine(current, field, fieldLine[2]);
+		} else {
+			appendLine(current, field, entry);
+		}
+	}
+	flush();
+
+	return {
+		items,
+		errors: items.length === 0 ? ['No questions found. Use a "## Questions" list or "> [!question]" callouts.'] : [],
+	};
+}
+
+// Callout body: question text until the first field line
+function parseFields(lines: string[]): Record<Field, string> {
+	const fields: Record<Field, string> = { text: "", answer: "", excerpt: "", concepts: "", response: "" };
+	let field: Field = "text";
+	for (const line of lines) {
+		const entry = line.trim().replace(LIST_ITEM, "$2");
+		if (!entry) continue;
+		const fieldLine = entry.match(FIELD);
+		if (fieldLine) {
+			field = FIELD_NAMES[fieldLine[1].toLowerCase()];
+			appendLine(fields, field, fieldLine[2]);
+		} else {
+			appendLine(fields, field, entry);
+		}
+	}
+	return fields;
+}
+
+function appendLine(fields: Record<Field, string>, field: Field, text: string): void {
+	if (!text.trim()) return;
+	fields[field] = fields[field] ? `${fields[field]}\n${text.trim()}` : text.trim();
+}
+
+// Spaced Repetition style "question::answer"
+function splitInlineAnswer(text: string): [string, string] {
+	const index = text.indexOf("::");
+	return index < 0 ? [text.trim(), ""] : [text.slice(0, index).trim(), text.slice(index + 2).trim()];
+}
+
+function toItem(fields: Record<Field, string>, origin: DeepNotesItem["origin"]): DeepNotesItem {
+	const item: DeepNotesItem = {
+		type: "knowledge-expansion",
+		text: fields.text.trim(),
+		origin,
+	};
+	if (fields.answer.trim()) item.sampleAnswer = fields.answer.trim();
+	if (fields.excerpt.trim()) item.sourceExcerpt = fields.excerpt.trim().replace(/^"(.*)"$/, "$1");
+	const concepts = fields.concepts.split(/[\n;]/).map((c) => c.trim()).filter(Boolean);
+	if (concepts.length > 0) item.keyConcepts = concepts;
+	return item;
+}
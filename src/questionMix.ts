@@ -0,0 +1,87 @@
+import type { DeepNotesItem } from "./ai";
+
+export type ItemType = DeepNotesItem["type"];
+
+// How many items of each type one generation run should return
+export type QuestionMix = Record<ItemType, number>;
+
+export const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+	"knowledge-expansion": "Recall questions",
+	suggestion: "Suggestions",
+	"cross-topic": "Cross-topic questions",
+};
+
+export const DEFAULT_QUESTION_MIX: QuestionMix = {
+	"knowledge-expansion": 2,
+	suggestion: 2,
+	"cross-topic": 2,
+};
+
+export const MAX_ITEMS_PER_TYPE = 30;
+
+const MIX_TYPES = Object.keys(DEFAULT_QUESTION_MIX) as ItemType[];
+
+export function totalCount(mix: QuestionMix): number {
+	return MIX_TYPES.reduce((sum, type) => sum + (mix[type] ?? 0), 0);
+}
+
+// The {{mix}} prompt variable: one line per type, in output order
+export function describeMix(mix: QuestionMix): string {
+	return MIX_TYPES.map((type) =>
+		mix[type] > 0 ? `- ${mix[type]} "${type}" item${mix[type] > 1 ? "s" : ""}` : `- no "${type}" items`
+	).join("\n");
+}
+
+// Cross-topic questions need related notes; without them the slots become recall questions
+export function withoutCrossTopic(mix: QuestionMix): QuestionMix {
+	return {
+		...mix,
+		"knowledge-expansion": mix["knowledge-expansion"] + mix["cross-topic"],
+		"cross-topic": 0,
+	};
+}
+
+// Share of the mix to request from one of `parts` sections; every requested type gets at least one
+export function scaleMix(mix: QuestionMix, parts: number): QuestionMix {
+	const scaled = { ...mix };
+	for (const type of MIX_TYPES) {
+		scaled[type] = mix[type] > 0 ? Math.max(1, Math.ceil(mix[type] / parts)) : 0;
+	}
+	return scaled;
+}
+
+/**
+ * Keeps the first items of each type up to the mix. Surplus recall questions
+ * may fill missing cross-topic slots, since the prompt allows that swap when
+ * the related notes are a weak match.
+ */
+export function fitToMix(items: DeepNotesItem[], mix: QuestionMix): DeepNotesItem[] {
+	const remaining = { ...mix };
+	const kept: DeepNotesItem[] = [];
+	const surplus: DeepNotesItem[] = [];
+
+	for (const item of items) {
+		if (remaining[item.type] > 0) {
+			remaining[item.type]--;
+			kept.push(item);
+		} else if (item.type === "knowledge-expansion") {
+			surplus.push(item);
+		}
+	}
+
+	kept.push(...surplus.slice(0, remaining["cross-topic"]));
+	return kept;
+}
+
+// Types and counts still missing after fitToMix
+export function missingFromMix(items: DeepNotesItem[], mix: QuestionMix): QuestionMix {
+	const missing = { ...mix };
+	for (const item of items) {
+		if (missing[item.type] > 0) {
+			missing[item.type]--;
+		} else if (item.type === "knowledge-expansion" && missing["cross-topic"] > 0) {
+			missing["cross-topic"]--;
+		}
+	}
+	return missing;
+}
@@ -0,0 +1,129 @@
+import { debounce, setIcon } from "obsidian";
+import type { DeepNotesItem } from "./ai";
+import { getItemFormat, initialStepOrder, splitCloze } from "./questionFormats";
+
+// Reads and resets the answer control of one question card
+export interface ResponseInput {
+	value(): string;
+	clear(): void;
+}
+
+/**
+ * Renders the answer control for the item's format into `card`. Every format
+ * stores its answer in item.userResponse and calls onChange after each edit.
+ */
+export function renderResponseInput(item: DeepNotesItem, card: HTMLElement, onChange: () => void): ResponseInput {
+	const setResponse = (value: string) => {
+		item.userResponse = value;
+		onChange();
+	};
+
+	switch (getItemFormat(item)) {
+		case "multiple-choice":
+		case "true-false": {
+			const options = item.format === "true-false" ? ["True", "False"] : item.choices ?? [];
+			const list = card.createDiv({ cls: "deep-notes-choices" });
+			const buttons = options.map((option) => {
+				// True/false answers are stored lower-case so they compare with isTrue
+				const value = item.format === "true-false" ? option.toLowerCase() : option;
+				const btn = list.createEl("button", { text: option, cls: "deep-notes-choice" });
+				btn.toggleClass("is-selected", item.userResponse === value);
+				btn.addEventListener("click", () => {
+					setResponse(value);
+					buttons.forEach((b) => b.removeClass("is-selected"));
+					btn.addClass("is-selected");
+				});
+				return btn;
+			});
+			return {
+				value: () => item.userResponse ?? "",
+				clear: () => {},
+			};
+		}
+		case "cloze": {
+			const parts = splitCloze(item);
+			const sentence = card.createEl("p", { cls: "deep-notes-cloze" });
+			sentence.appendText(parts?.before ?? "");
+			const blank = sentence.createEl("input", {
+				type: "text",
+				cls: "deep-notes-cloze-input",
+				attr: { placeholder: "…", size: String(Math.max((item.clozeAnswer ?? "").length, 6)) },
+			});
+			sentence.appendText(parts?.after ?? "");
+			blank.value = item.userResponse ?? "";
+			blank.addEventListener("input", debounce(() => setResponse(blank.value), 200));
+			return {
+				value: () => blank.value,
+				clear: () => (blank.value = ""),
+			};
+		}
+		case "ordering": {
+			const list = card.createEl("ol", { cls: "deep-notes-ordering" });
+			const confirm = card.createDiv({ cls: "deep-notes-ordering-confirm" });
+			let order = item.userResponse ? item.userResponse.split("\n") : initialStepOrder(item);
+
+			// Until a step is moved the shown order is not an answer; the user can accept it as is
+			const renderConfirm = () => {
+				confirm.empty();
+				if (item.userResponse) return;
+				const keepBtn = confirm.createEl("button", { text: "Keep This Order", cls: "deep-notes-ordering-move" });
+				keepBtn.addEventListener("click", () => {
+					setResponse(order.join("\n"));
+					renderConfirm();
+				});
+			};
+
+			const renderSteps = () => {
+				list.empty();
+				order.forEach((step, i) => {
+					const row = list.createEl("li", { cls: "deep-notes-ordering-step" });
+					row.createSpan({ text: step });
+					const controls = row.createDiv({ cls: "deep-notes-ordering-controls" });
+					for (const [icon, offset] of [["arrow-up", -1], ["arrow-down", 1]] as const) {
+						const target = i + offset;
+						const moveBtn = controls.createEl("button", { cls: "deep-notes-ordering-move" });
+						setIcon(moveBtn, icon);
+						moveBtn.disabled = target < 0 || target >= order.length;
+						moveBtn.addEventListener("click", () => {
+							order = [...order];
+							[order[i], order[target]] = [order[target], order[i]];
+							setResponse(order.join("\n"));
+							renderSteps();
+							renderConfirm();
+						});
+					}
+				});
+			};
+			renderSteps();
+			renderConfirm();
+
+			return {
+				value: () => item.userResponse ?? "",
+				clear: () => {},
+			};
+		}
+		default: {
+			const textarea = card.createEl("textarea", {
+				cls: "deep-notes-response",
+				placeholder: "Type your response...",
+				attr: { rows: "3" },
+			}) as HTMLTextAreaElement;
+
+			// Init value if exists
+			if (item.userResponse) {
+				textarea.value = item.userResponse;
+			}
+
+			// Save cache on input
+			textarea.addEventListener("input", debounce(() => {
+				item.userResponse = textarea.value; // Don't trim immediately to allow spaces while typing
+				onChange();
+			}, 200));
+
+			return {
+				value: () => textarea.value,
+				clear: () => (textarea.value = ""),
+			};
+		}
+	}
+}
@@ -0,0 +1,174 @@
+import type { DataAdapter } from "obsidian";
+import type { DeepNotesItem, EvaluationFeedback } from "./ai";
+import { flattenItems, QASession } from "./history";
+import { hash64 } from "./hash";
+import { getScheduler, gradeFromFeedback, ReviewCard, ReviewGrade, SchedulerId, SM2_INITIAL_EASE } from "./scheduler";
+
+// Version 2: card ids became 64-bit hashes
+const STORE_VERSION = 2;
+
+interface ReviewData {
+	version: number;
+	cards: ReviewCard[];
+}
+
+/**
+ * Spaced repetition cards, kept in their own file next to data.json so the
+ * schedule does not grow the settings or depend on the capped session history.
+ */
+export class ReviewStore {
+	private cards = new Map<string, ReviewCard>();
+
+	constructor(private adapter: DataAdapter, private path: string) {}
+
+	// Returns false when there was no data file yet
+	async load(): Promise<boolean> {
+		if (!(await this.adapter.exists(this.path))) return false;
+		try {
+			const data = JSON.parse(await this.adapter.read(this.path)) as ReviewData;
+			let cards = data.cards ?? [];
+			if ((data.version ?? 1) < 2) {
+				cards = cards.map((card) => ({ ...card, id: cardId(card.notePath, card.item.text) }));
+			}
+			this.cards = new Map(cards.map((card) => [card.id, card]));
+		} catch (e) {
+			console.error("Deep Notes: Could not read review cards", e);
+		}
+		return true;
+	}
+
+	async save(): Promise<void> {
+		const data: ReviewData = { version: STORE_VERSION, cards: [...this.cards.values()] };
+		await this.adapter.write(this.path, JSON.stringify(data));
+	}
+
+	get(id: string): ReviewCard | undefined {
+		return this.cards.get(id);
+	}
+
+	getForItem(notePath: string, item: DeepNotesItem): ReviewCard | undefined {
+		return this.cards.get(cardId(notePath, item.text));
+	}
+
+	all(): ReviewCard[] {
+		return [...this.cards.values()];
+	}
+
+	due(now = Date.now()): ReviewCard[] {
+		return this.all().filter((card) => card.due <= now).sort((a, b) => a.due - b.due);
+	}
+
+	/**
+	 * Reviews every answered question of an evaluation, creating cards for new
+	 * questions. Unanswered questions are left unscheduled.
+	 */
+	async recordEvaluation(
+		notePath: string,
+		noteTitle: string,
+		items: DeepNotesItem[],
+		responses: string[],
+		feedback: EvaluationFeedback[],
+		schedulerId: SchedulerId,
+		now = Date.now()
+	): Promise<ReviewCard[]> {
+		const scheduler = getScheduler(schedulerId);
+		const reviewed: ReviewCard[] = [];
+
+		items.forEach((item, i) => {
+			if (!feedback[i] || feedback[i].ungraded || !(responses[i] ?? "").trim()) return;
+			const id = cardId(notePath, item.text);
+			const card = this.cards.get(id) ?? newCard(id, notePath, noteTitle, item, now);
+			const next = scheduler.review({ ...card, noteTitle, item: toCardItem(item) }, gradeFromFeedback(feedback[i]), now);
+			this.cards.set(id, next);
+			reviewed.push(next);
+		});
+
+		if (reviewed.length > 0) {
+			await this.save();
+		}
+		return reviewed;
+	}
+
+	// Applies a grade given in the review queue
+	async review(id: string, grade: ReviewGrade, schedulerId: SchedulerId, now = Date.now()): Promise<ReviewCard | undefined> {
+		const card = this.cards.get(id);
+		if (!card) return undefined;
+		const next = getScheduler(schedulerId).review(card, grade, now);
+		this.cards.set(id, next);
+		await this.save();
+		return next;
+	}
+
+	/**
+	 * Creates cards from evaluated history sessions, replaying their evaluations
+	 * oldest first so each card's schedule reflects every past rating.
+	 */
+	async importSessions(sessions: QASession[], schedulerId: SchedulerId): Promise<number> {
+		const scheduler = getScheduler(schedulerId);
+		const before = this.cards.size;
+		const evaluated = sessions.filter((s) => s.evaluation).sort((a, b) => a.timestamp - b.timestamp);
+
+		for (const session of evaluated) {
+			const items = flattenItems(session.items);
+			const feedback = session.evaluation!.feedback;
+			items.forEach((item, i) => {
+				const response = item.userResponse ?? session.responses?.[i] ?? "";
+				if (!feedback[i] || feedback[i].ungraded || feedback[i].question !== item.text || !response.trim()) return;
+				const id = cardId(session.notePath, item.text);
+				const card = this.cards.get(id) ?? newCard(id, session.notePath, session.noteTitle, item, session.timestamp);
+				this.cards.set(id, scheduler.review(card, gradeFromFeedback(feedback[i]), session.timestamp));
+			});
+		}
+
+		if (this.cards.size > before) {
+			await this.save();
+		}
+		return this.cards.size - before;
+	}
+
+	// Cards are keyed by note path, so a renamed note's cards get new ids
+	async renameNote(oldPath: string, newPath: string, newTitle: string): Promise<void> {
+		let changed = false;
+		for (const card of this.all()) {
+			if (card.notePath !== oldPath) continue;
+			this.cards.delete(card.id);
+			const id = cardId(newPath, card.item.text);
+			this.cards.set(id, { ...card, id, notePath: newPath, noteTitle: newTitle });
+			changed = true;
+		}
+		if (changed) {
+			await this.save();
+		}
+	}
+
+	async remove(id: string): Promise<void> {
+		if (this.cards.delete(id)) {
+			await this.save();
+		}
+	}
+}
+
+export function cardId(notePath: string, question: string): string {
+	return hash64(`${notePath}\n${question.trim().toLowerCase()}`);
+}
+
+function newCard(id: string, notePath: string, noteTitle: string, item: DeepNotesItem, now: number): ReviewCard {
+	return {
+		id,
+		notePath,
+		noteTitle,
+		item: toCardItem(item),
+		createdAt: now,
+		due: now,
+		interval: 0,
+		ease: SM2_INITIAL_EASE,
+		reps: 0,
+		lapses: 0,
+	};
+}
+
+// Cards keep only what is needed to ask and grade the question again
+function toCardItem(item: DeepNotesItem): DeepNotesItem {
+	const { sampleAnswerEmbedding, userResponse, subItems, ...rest } = item;
+	return rest;
+}
@@ -0,0 +1,321 @@
+import { ItemView, MarkdownView, Notice, WorkspaceLeaf, TFile, setIcon } from "obsidian";
+import { VIEW_TYPE_DEEP_NOTES_REVIEW } from "./constants";
+import { evaluateResponses, DeepNotesItem, EvaluationFeedback } from "./ai";
+import { scrollToExcerpt } from "./highlights";
+import { describeError } from "./providers";
+import { isAbortError } from "./abort";
+import { answerKey, FORMAT_LABELS } from "./questionFormats";
+import { renderResponseInput } from "./responseInput";
+import { gradeFromFeedback, ReviewCard, ReviewGrade } from "./scheduler";
+import { formatDay } from "./analytics";
+import type DeepNotesPlugin from "./main";
+
+const TYPE_BADGES: Record<DeepNotesItem["type"], string> = {
+	"knowledge-expansion": "Knowledge Expansion",
+	"cross-topic": "Cross-Topic",
+	suggestion: "Suggestion",
+};
+
+const GRADES: { value: ReviewGrade; label: string }[] = [
+	{ value: "again", label: "Again" },
+	{ value: "hard", label: "Hard" },
+	{ value: "good", label: "Good" },
+	{ value: "easy", label: "Easy" },
+];
+
+/**
+ * Daily review across the vault: serves every due card one at a time and
+ * reschedules it from a self-grade or an automatic evaluation.
+ */
+export class DeepNotesReviewView extends ItemView {
+	plugin: DeepNotesPlugin;
+	private queue: ReviewCard[] = [];
+	private position = 0;
+	// The current card's question, with the response typed so far
+	private current: DeepNotesItem | null = null;
+	private revealed = false;
+	private feedback: EvaluationFeedback | null = null;
+	private grading: AbortController | null = null;
+	private counts: Record<ReviewGrade, number> = { again: 0, hard: 0, good: 0, easy: 0 };
+
+	constructor(leaf: WorkspaceLeaf, plugin: DeepNotesPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_DEEP_NOTES_REVIEW;
+	}
+
+	getDisplayText(): string {
+		return "Deep Notes Review";
+	}
+
+	getIcon(): string {
+		return "calendar-check";
+	}
+
+	async onOpen(): Promise<void> {
+		this.startSession();
+	}
+
+	async onClose(): Promise<void> {
+		this.grading?.abort();
+	}
+
+	// Collects the cards due now; grades given so far in this view are kept in the counters
+	startSession(): void {
+		this.grading?.abort();
+		this.queue = this.plugin.reviewStore.due();
+		this.position = 0;
+		this.showCard();
+	}
+
+	// Swaps queued cards of a renamed note for their re-keyed copies
+	handleRename(oldPath: string, newPath: string): void {
+		this.queue = this.queue.map((card) =>
+			card.notePath === oldPath ? this.plugin.reviewStore.getForItem(newPath, card.item) ?? card : card
+		);
+	}
+
+	private showCard(): void {
+		const card = this.queue[this.position];
+		this.current = card ? { ...card.item } : null;
+		this.revealed = false;
+		this.feedback = null;
+		this.render();
+	}
+
+	private render(): void {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("deep-notes-container", "deep-notes-review");
+
+		const header = container.createDiv({ cls: "deep-notes-header deep-notes-review-header" });
+		header.createEl("h4", { text: "Deep Notes Review" });
+		const refreshBtn = header.createEl("button", {
+			cls: "deep-notes-review-refresh",
+			attr: { "aria-label": "Reload due questions" },
+		});
+		setIcon(refreshBtn, "refresh-cw");
+		refreshBtn.addEventListener("click", () => this.startSession());
+
+		this.renderProgress(container);
+
+		const card = this.queue[this.position];
+		if (!card || !this.current) {
+			this.renderEmpty(container);
+			return;
+		}
+		this.renderCard(container, card, this.current);
+	}
+
+	private renderProgress(container: HTMLElement): void {
+		const progress = container.createDiv({ cls: "deep-notes-review-progress" });
+		const total = this.queue.length;
+		progress.createSpan({
+			text: total > 0 ? `${Math.min(this.position + 1, total)} / ${total}` : "0 due",
+			cls: "deep-notes-review-position",
+		});
+		for (const grade of GRADES) {
+			progress.createSpan({
+				text: `${grade.label} ${this.counts[grade.value]}`,
+				cls: `deep-notes-review-count grade-${grade.value}`,
+			});
+		}
+		if (total > 0) {
+			const bar = container.createDiv({ cls: "deep-notes-review-bar" });
+			bar.createDiv({ cls: "deep-notes-review-bar-fill" }).style.width = `${(this.position / total) * 100}%`;
+		}
+	}
+
+	private renderEmpty(container: HTMLElement): void {
+		const reviewed = Object.values(this.counts).reduce((a, b) => a + b, 0);
+		const empty = container.createDiv({ cls: "deep-notes-review-empty" });
+		empty.createEl("p", {
+			text: this.queue.length > 0
+				? `Done! You reviewed ${this.queue.length} question${this.queue.length > 1 ? "s" : ""}.`
+				: reviewed > 0 ? "No more questions due." : "No questions are due.",
+		});
+
+		const upcoming = this.plugin.reviewStore.all().map((c) => c.due).filter((due) => due > Date.now());
+		if (upcoming.length > 0) {
+			empty.createEl("p", {
+				text: `Next review: ${formatDay(Math.min(...upcoming))}`,
+				cls: "deep-notes-review-next",
+			});
+		}
+	}
+
+	private renderCard(container: HTMLElement, card: ReviewCard, item: DeepNotesItem): void {
+		const cardEl = container.createDiv({ cls: "deep-notes-card deep-notes-review-card" });
+
+		const headerRow = cardEl.createDiv({ cls: "deep-notes-card-header" });
+		headerRow.createEl("span", {
+			text: TYPE_BADGES[item.type],
+			cls: `deep-notes-badge deep-notes-badge-${item.type}`,
+		});
+		if (item.format && item.format !== "open") {
+			headerRow.createEl("span", {
+				text: FORMAT_LABELS[item.format],
+				cls: "deep-notes-badge deep-notes-badge-format",
+			});
+		}
+
+		const sourceLink = cardEl.createEl("a", {
+			text: card.noteTitle,
+			cls: "deep-notes-review-source",
+			attr: { "aria-label": "Open the note at the source of this question" },
+		});
+		sourceLink.addEventListener("click", () => this.jumpToSource(card));
+
+		cardEl.createEl("p", { text: item.text, cls: "deep-notes-text" });
+
+		const input = renderResponseInput(item, cardEl, () => {});
+
+		if (this.feedback) {
+			this.renderFeedback(cardEl, this.feedback);
+		}
+		if (this.revealed) {
+			this.renderAnswer(cardEl, item);
+		}
+
+		const btnRow = cardEl.createDiv({ cls: "deep-notes-btn-row" });
+		if (!this.revealed) {
+			const revealBtn = btnRow.createEl("button", { text: "Show Answer", cls: "deep-notes-add-btn" });
+			revealBtn.addEventListener("click", () => {
+				this.revealed = true;
+				this.render();
+			});
+		}
+		if (!this.feedback) {
+			const gradeBtn = btnRow.createEl("button", {
+				text: this.grading ? "Grading..." : "Grade My Answer",
+				cls: "deep-notes-add-btn",
+			});
+			gradeBtn.disabled = this.grading !== null;
+			gradeBtn.addEventListener("click", () => this.autoGrade(card, item, input.value()));
+		}
+
+		if (this.revealed || this.feedback) {
+			const suggested = this.feedback && !this.feedback.ungraded ? gradeFromFeedback(this.feedback) : null;
+			const gradeRow = cardEl.createDiv({ cls: "deep-notes-review-grades" });
+			for (const grade of GRADES) {
+				const btn = gradeRow.createEl("button", {
+					text: grade.label,
+					cls: `deep-notes-review-grade grade-${grade.value}`,
+				});
+				if (grade.value === suggested) {
+					btn.addClass("mod-cta");
+				}
+				btn.addEventListener("click", () => this.grade(card, grade.value));
+			}
+		}
+	}
+
+	private renderAnswer(container: HTMLElement, item: DeepNotesItem): void {
+		const answer = container.createDiv({ cls: "deep-notes-review-answer" });
+		// Closed formats show their correct answer first, as the note view does after grading
+		const key = answerKey(item);
+		if (key) {
+			answer.createEl("p", { cls: "deep-notes-suggested-answer-text" }).createEl("strong", { text: key });
+		}
+		if (item.sampleAnswer) {
+			answer.createEl("p", { text: item.sampleAnswer, cls: "deep-notes-suggested-answer-text" });
+		}
+		if (item.keyConcepts && !this.feedback?.concepts) {
+			const list = answer.createEl("ul", { cls: "deep-notes-concepts" });
+			for (const concept of item.keyConcepts) {
+				list.createEl("li", { text: concept, cls: "deep-notes-concept" });
+			}
+		}
+		if (item.sourceExcerpt) {
+			answer.createEl("blockquote", { text: item.sourceExcerpt, cls: "deep-notes-review-excerpt" });
+		}
+	}
+
+	private renderFeedback(container: HTMLElement, fb: EvaluationFeedback): void {
+		const el = container.createDiv({ cls: "deep-notes-feedback-card" });
+		el.createEl("span", {
+			text: fb.score !== undefined ? `${fb.score}%` : fb.explanation,
+			cls: `deep-notes-badge deep-notes-rating-badge rating-${fb.rating}`,
+		});
+		if (fb.score !== undefined && fb.explanation) {
+			el.createEl("p", { text: fb.explanation, cls: "deep-notes-feedback-explanation" });
+		}
+		if (fb.concepts && fb.concepts.length > 0) {
+			const list = el.createEl("ul", { cls: "deep-notes-concepts" });
+			for (const c of fb.concepts) {
+				const row = list.createEl("li", { cls: `deep-notes-concept ${c.covered ? "is-covered" : "is-missed"}` });
+				setIcon(row.createSpan({ cls: "deep-notes-concept-icon" }), c.covered ? "check" : "x");
+				row.createSpan({ text: c.concept });
+			}
+		}
+	}
+
+	// Grades the answer the same way as the note view; the suggested self-grade follows the rating
+	private async autoGrade(card: ReviewCard, item: DeepNotesItem, response: string): Promise<void> {
+		if (!response.trim()) {
+			new Notice("Type an answer first.");
+			return;
+		}
+
+		const controller = new AbortController();
+		this.grading = controller;
+		this.render();
+
+		try {
+			const file = this.app.vault.getAbstractFileByPath(card.notePath);
+			const noteContent = file instanceof TFile ? await this.app.vault.read(file) : "";
+
+			const result = await evaluateResponses(
+				noteContent,
+				[{ ...item }],
+				[response],
+				this.plugin.settings,
+				this.plugin.settings.model,
+				undefined,
+				controller.signal
+			);
+			if (this.grading === controller) {
+				this.feedback = result.feedback[0] ?? null;
+				this.revealed = true;
+			}
+		} catch (e) {
+			if (!isAbortError(e)) {
+				new Notice(`Grading error: ${describeError(e)}`);
+			}
+		} finally {
+			if (this.grading === controller) {
+				this.grading = null;
+				this.render();
+			}
+		}
+	}
+
+	private async grade(card: ReviewCard, grade: ReviewGrade): Promise<void> {
+		this.grading?.abort();
+		this.grading = null;
+		await this.plugin.reviewStore.review(card.id, grade, this.plugin.settings.scheduler);
+		this.counts[grade]++;
+		this.position++;
+		this.showCard();
+	}
+
+	private async jumpToSource(card: ReviewCard): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(card.notePath);
+		if (!(file instanceof TFile)) {
+			new Notice(`Note not found: ${card.notePath}`);
+			return;
+		}
+
+		// Reuse a tab that already shows the note; never replace this view
+		const leaf = this.app.workspace.getLeavesOfType("markdown")
+			.find((l) => (l.view as MarkdownView).file?.path === file.path)
+			?? this.app.workspace.getLeaf("tab");
+		await leaf.openFile(file, { active: true });
+		if (card.item.sourceExcerpt) {
+			scrollToExcerpt(this.app, card.item.sourceExcerpt);
+		}
+	}
+}
@@ -0,0 +1,84 @@
+import type { ReviewCard, ReviewGrade, Scheduler } from "./types";
+import { addDays, DAY_MS } from "./util";
+
+// FSRS-4.5 default parameters
+const W = [0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755];
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const MAX_INTERVAL = 36500;
+
+const RATING: Record<ReviewGrade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+/**
+ * Free Spaced Repetition Scheduler: models each card's stability (days until recall
+ * drops to 90%) and difficulty, and schedules the next review at the target retention.
+ */
+export class FsrsScheduler implements Scheduler {
+	readonly id = "fsrs";
+	readonly label = "FSRS";
+
+	constructor(private readonly retention = 0.9) {}
+
+	review(card: ReviewCard, grade: ReviewGrade, now: number): ReviewCard {
+		const g = RATING[grade];
+		let stability: number;
+		let difficulty: number;
+
+		if (card.stability === undefined || card.difficulty === undefined || card.lastReview === undefined) {
+			stability = W[g - 1];
+			difficulty = initialDifficulty(g);
+		} else {
+			const elapsed = Math.max(0, (now - card.lastReview) / DAY_MS);
+			const r = retrievability(elapsed, card.stability);
+			difficulty = nextDifficulty(card.difficulty, g);
+			stability = g === 1
+				? forgetStability(card.difficulty, card.stability, r)
+				: recallStability(card.difficulty, card.stability, r, g);
+		}
+
+		const interval = Math.min(MAX_INTERVAL, Math.max(1, Math.round((stability / FACTOR) * (Math.pow(this.retention, 1 / DECAY) - 1))));
+		// Ease mirrors difficulty (1-10 onto 2.5-1.3) so an SM-2 schedule can take over
+		const ease = Math.round((2.5 - ((difficulty - 1) / 9) * 1.2) * 100) / 100;
+
+		return {
+			...card,
+			stability,
+			difficulty,
+			ease,
+			interval,
+			reps: g === 1 ? 0 : card.reps + 1,
+			lapses: g === 1 && card.lastReview !== undefined ? card.lapses + 1 : card.lapses,
+			due: addDays(now, interval),
+			lastReview: now,
+			lastGrade: grade,
+		};
+	}
+}
+
+function retrievability(elapsedDays: number, stability: number): number {
+	return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+}
+
+function initialDifficulty(g: number): number {
+	return clampDifficulty(W[4] - (g - 3) * W[5]);
+}
+
+// Difficulty moves with the grade, then reverts slightly toward the default: D0(3) = W[4] in FSRS-4.5
+function nextDifficulty(d: number, g: number): number {
+	const next = d - W[6] * (g - 3);
+	return clampDifficulty(W[7] * W[4] + (1 - W[7]) * next);
+}
+
+function recallStability(d: number, s: number, r: number, g: number): number {
+	const hardPenalty = g === 2 ? W[15] : 1;
+	const easyBonus = g === 4 ? W[16] : 1;
+	return s * (1 + Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+}
+
+function forgetStability(d: number, s: number, r: number): number {
+	return Math.min(s, W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r)));
+}
+
+function clampDifficulty(d: number): number {
+	return Math.min(10, Math.max(1, d));
+}
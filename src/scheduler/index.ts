@@ -0,0 +1,29 @@
+import type { EvaluationFeedback } from "../ai";
+import type { ReviewGrade, Scheduler, SchedulerId } from "./types";
+import { Sm2Scheduler } from "./sm2";
+import { FsrsScheduler } from "./fsrs";
+
+export type { ReviewCard, ReviewGrade, Scheduler, SchedulerId } from "./types";
+export { SM2_INITIAL_EASE } from "./sm2";
+export { addDays, DAY_MS } from "./util";
+
+export const SCHEDULERS: { value: SchedulerId; label: string }[] = [
+	{ value: "sm2", label: "SM-2 (SuperMemo 2)" },
+	{ value: "fsrs", label: "FSRS (Free Spaced Repetition Scheduler)" },
+];
+
+export function getScheduler(id: SchedulerId): Scheduler {
+	return id === "fsrs" ? new FsrsScheduler() : new Sm2Scheduler();
+}
+
+// Scores of 95 and up count as effortless recall
+export function gradeFromFeedback(feedback: EvaluationFeedback): ReviewGrade {
+	switch (feedback.rating) {
+		case "correct":
+			return (feedback.score ?? 100) >= 95 ? "easy" : "good";
+		case "partial":
+			return "hard";
+		default:
+			return "again";
+	}
+}
@@ -0,0 +1,26 @@
+import type { ReviewCard, ReviewGrade, Scheduler } from "./types";
+import { addDays } from "./util";
+
+// SM-2 quality (0-5) for each grade; below 3 is a lapse
+const QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const SM2_INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// The original SuperMemo 2 algorithm
+export class Sm2Scheduler implements Scheduler {
+	readonly id = "sm2";
+	readonly label = "SM-2";
+
+	review(card: ReviewCard, grade: ReviewGrade, now: number): ReviewCard {
+		const q = QUALITY[grade];
+		const ease = Math.max(MIN_EASE, card.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+		if (q < 3) {
+			return { ...card, ease, reps: 0, lapses: card.reps > 0 ? card.lapses + 1 : card.lapses, interval: 1, due: addDays(now, 1), lastReview: now, lastGrade: grade };
+		}
+
+		const interval = card.reps === 0 ? 1 : card.reps === 1 ? 6 : Math.round(card.interval * card.ease);
+		return { ...card, ease, reps: card.reps + 1, interval, due: addDays(now, interval), lastReview: now, lastGrade: grade };
+	}
+}
@@ -0,0 +1,42 @@
+import type { DeepNotesItem } from "../ai";
+
+export type SchedulerId = "sm2" | "fsrs";
+
+// How well a question was recalled, derived from its evaluation rating
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+/**
+ * One generated question under spaced repetition. The SM-2 fields (ease, interval)
+ * are kept up to date by every scheduler so switching algorithms keeps the schedule.
+ */
+export interface ReviewCard {
+	// Stable per note and question text, so re-evaluating a question updates its card
+	id: string;
+	notePath: string;
+	noteTitle: string;
+	// The question without its embedding, response or follow-ups
+	item: DeepNotesItem;
+	createdAt: number;
+	// Next review, epoch ms
+	due: number;
+	// Days between the last review and `due`
+	interval: number;
+	ease: number;
+	reps: number;
+	lapses: number;
+	lastReview?: number;
+	lastGrade?: ReviewGrade;
+	// FSRS memory state; missing until the card is first reviewed by FSRS
+	stability?: number;
+	difficulty?: number;
+}
+
+/**
+ * A spaced repetition algorithm. Schedulers are pure: they return the card's next
+ * state and leave storage to the caller.
+ */
+export interface Scheduler {
+	readonly id: SchedulerId;
+	readonly label: string;
+	review(card: ReviewCard, grade: ReviewGrade, now: number): ReviewCard;
+}
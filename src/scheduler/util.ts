@@ -0,0 +1,5 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function addDays(time: number, days: number): number {
+	return time + days * DAY_MS;
+}
@@ -0,0 +1,207 @@
+import type { NoteMetadata } from "./vectorStore";
+
+type FilterOp = "=" | ">" | ">=" | "<" | "<=";
+
+interface FilterTerm {
+	key: string;
+	op: FilterOp;
+	value: string;
+	negate: boolean;
+	// Day range [start, end) in ms for created/modified
+	range?: [number, number];
+}
+
+/**
+ * A parsed filter expression: terms separated by spaces must all match, `OR`
+ * separates alternatives.
+ */
+export interface SearchFilter {
+	expression: string;
+	groups: FilterTerm[][];
+}
+
+export interface ParsedFilter {
+	filter: SearchFilter | null;
+	errors: string[];
+}
+
+const TERM = /^(-?)([^\s:<>=]+)(:>=|:<=|:>|:<|:|>=|<=|>|<|=)(.*)$/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const RELATIVE_DATE = /^(\d+)([dwmy])$/;
+const DATE_KEYS = new Set(["created", "modified"]);
+// Keys with their own meaning; any other key is a frontmatter field
+const MATCH_KEYS = new Set(["folder", "tag", "path"]);
+
+/**
+ * Parses a filter such as `folder:Courses/Biology tag:exam-1 modified>=90d`.
+ * - `folder:`, `tag:` (or `#tag`) and `path:` match a folder and its subfolders,
+ *   a tag and its nested tags, and part of the note path
+ * - `created` and `modified` compare with `:`, `>`, `>=`, `<` and `<=` against
+ *   a date (`2026-09-01`), `today`, or a time ago (`30d`, `6w`, `3m`, `1y`)
+ * - any other key is a frontmatter field: `course:BIO101`, `difficulty>=3`, `status:*`
+ * - `-` in front of a term negates it; quote values with spaces
+ */
+export function parseSearchFilter(expression: string, now = Date.now()): ParsedFilter {
+	const groups: FilterTerm[][] = [[]];
+	const errors: string[] = [];
+
+	for (const token of splitTokens(expression)) {
+		if (token === "OR") {
+			groups.push([]);
+			continue;
+		}
+
+		const tag = token.match(/^(-?)#(.+)$/);
+		const match = tag ? [token, tag[1], "tag", ":", tag[2]] : token.match(TERM);
+		if (!match) {
+			errors.push(`"${token}" is not a filter. Use key:value, e.g. tag:exam-1.`);
+			continue;
+		}
+
+		const key = match[2].toLowerCase();
+		const op = (match[3].replace(":", "") || "=") as FilterOp;
+		const value = unquote(match[4]);
+		if (!value) {
+			errors.push(`"${token}" has no value.`);
+			continue;
+		}
+		if (MATCH_KEYS.has(key) && op !== "=") {
+			errors.push(`"${key}" can only be matched with ":".`);
+			continue;
+		}
+
+		const term: FilterTerm = { key, op, value, negate: match[1] === "-" };
+		if (DATE_KEYS.has(key)) {
+			const range = parseDate(value, now);
+			if (!range) {
+				errors.push(`"${value}" is not a date. Use YYYY-MM-DD, today, or a time ago like 30d.`);
+				continue;
+			}
+			term.range = range;
+		}
+		groups[groups.length - 1].push(term);
+	}
+
+	const nonEmpty = groups.filter((group) => group.length > 0);
+	return {
+		filter: errors.length === 0 && nonEmpty.length > 0 ? { expression: expression.trim(), groups: nonEmpty } : null,
+		errors,
+	};
+}
+
+export function matchesFilter(filter: SearchFilter, filePath: string, note: NoteMetadata): boolean {
+	return filter.groups.some((group) => group.every((term) => matchesTerm(term, filePath, note) !== term.negate));
+}
+
+function matchesTerm(term: FilterTerm, filePath: string, note: NoteMetadata): boolean {
+	const value = term.value.toLowerCase();
+	switch (term.key) {
+		case "folder": {
+			const folder = value.replace(/^\/+|\/+$/g, "");
+			const noteFolder = note.folder.toLowerCase();
+			return folder === "" || noteFolder === folder || noteFolder.startsWith(`${folder}/`);
+		}
+		case "tag": {
+			const tag = value.replace(/^#/, "");
+			return note.tags.some((t) => {
+				const noteTag = t.toLowerCase();
+				return noteTag === tag || noteTag.startsWith(`${tag}/`);
+			});
+		}
+		case "path":
+			return filePath.toLowerCase().includes(value);
+		case "created":
+			return compareRange(note.ctime, term.op, term.range!);
+		case "modified":
+			return compareRange(note.mtime, term.op, term.range!);
+		default:
+			return matchesField(note.frontmatter, term);
+	}
+}
+
+function compareRange(time: number, op: FilterOp, [start, end]: [number, number]): boolean {
+	// Notes indexed before created times were stored
+	if (!time) return false;
+	switch (op) {
+		case ">":
+			return time >= end;
+		case ">=":
+			return time >= start;
+		case "<":
+			return time < start;
+		case "<=":
+			return time < end;
+		default:
+			return time >= start && time < end;
+	}
+}
+
+// Frontmatter keys match case-insensitively; a list field matches if any entry does
+function matchesField(frontmatter: Record<string, unknown>, term: FilterTerm): boolean {
+	const key = Object.keys(frontmatter).find((k) => k.toLowerCase() === term.key);
+	if (key === undefined) return false;
+	const field = frontmatter[key];
+	if (term.value === "*") return field !== null && field !== "";
+
+	const values = Array.isArray(field) ? field : [field];
+	return values.some((v) => {
+		if (v === null || typeof v === "object") return false;
+		const text = String(v).toLowerCase();
+		if (term.op === "=") return text === term.value.toLowerCase();
+
+		// Order by number if both sides are numbers, otherwise by date
+		let a = Number(v);
+		let b = Number(term.value);
+		if (isNaN(a) || isNaN(b) || text === "" || typeof v === "boolean") {
+			a = Date.parse(text);
+			b = Date.parse(term.value);
+			if (isNaN(a) || isNaN(b)) return false;
+		}
+		switch (term.op) {
+			case ">":
+				return a > b;
+			case ">=":
+				return a >= b;
+			case "<":
+				return a < b;
+			default:
+				return a <= b;
+		}
+	});
+}
+
+// The local day a date value names, as [start, end) in ms
+function parseDate(value: string, now: number): [number, number] | null {
+	const today = new Date(now);
+	let day: Date;
+
+	const iso = value.match(ISO_DATE);
+	const relative = value.toLowerCase().match(RELATIVE_DATE);
+	if (iso) {
+		day = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+		if (day.getMonth() !== Number(iso[2]) - 1) return null;
+	} else if (relative) {
+		const n = Number(relative[1]);
+		day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+		if (relative[2] === "d") day.setDate(day.getDate() - n);
+		else if (relative[2] === "w") day.setDate(day.getDate() - n * 7);
+		else if (relative[2] === "m") day.setMonth(day.getMonth() - n);
+		else day.setFullYear(day.getFullYear() - n);
+	} else if (value.toLowerCase() === "today") {
+		day = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+	} else {
+		return null;
+	}
+
+	const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+	return [day.getTime(), end.getTime()];
+}
+
+// Splits on spaces outside double quotes
+function splitTokens(expression: string): string[] {
+	return expression.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+}
+
+function unquote(value: string): string {
+	return value.replace(/^"(.*)"$/, "$1").trim();
+}
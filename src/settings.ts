@@ -4,46 +4,162 @@ import {
 	PROVIDERS,
 	MODELS_BY_PROVIDER,
 	DEFAULT_MODEL_BY_PROVIDER,
-	DEFAULT_SYSTEM_PROMPT,
+	VISION_MODEL_BY_PROVIDER,
+	DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+	CONTEXT_WINDOW_BY_PROVIDER,
 } from "./constants";
 import type { EmbeddingProvider } from "./embeddings";
 import type { QASession } from "./history";
 import type DeepNotesPlugin from "./main";
+import {
+	PromptKind,
+	PromptTemplate,
+	PROMPT_KINDS,
+	DEFAULT_ACTIVE_PROMPTS,
+	getActivePrompt,
+	getBuiltinPrompt,
+	listPrompts,
+} from "./prompts";
+import { QuestionMix, DEFAULT_QUESTION_MIX, ITEM_TYPE_LABELS, MAX_ITEMS_PER_TYPE, totalCount } from "./questionMix";
+import { QuestionFormat, FORMAT_LABELS, QUESTION_FORMATS } from "./questionFormats";
+import { GradingMode, GRADING_MODES } from "./grading";
+import { calibrateSimilarity, getSimilarityThresholds, SimilarityThresholds } from "./calibration";
+import { getEmbeddingModelKey } from "./embeddings";
+import { describeError } from "./providers";
+import { SchedulerId, SCHEDULERS } from "./scheduler";
+import { parseSearchFilter } from "./searchFilter";
 
 
 export interface DeepNotesSettings {
 	provider: AIProvider;
 	geminiApiKey: string;
+	openaiApiKey: string;
+	anthropicApiKey: string;
 	ollamaBaseUrl: string;
+	openaiCompatibleBaseUrl: string;
+	openaiCompatibleApiKey: string;
 	model: string;
+	streamResponses: boolean;
+	// Context window in tokens per model name; missing entries use the provider default
+	contextWindows: Record<string, number>;
+	requestsPerMinute: Partial<Record<AIProvider, number>>;
+	maxRetries: number;
 	imageOcrEnabled: boolean;
-	imageOcrProvider: "ollama" | "gemini";
+	imageOcrProvider: AIProvider;
 	imageOcrVisionModel: string;
 	imageOcrMaxImages: number;
 	imageOnlyMode: boolean;
 	ocrDebugEnabled: boolean;
-	systemPrompt: string;
+	prompts: PromptTemplate[];
+	activePrompts: Record<PromptKind, string>;
+	questionLanguage: string;
+	questionMix: QuestionMix;
+	questionFormats: QuestionFormat[];
+	gradingMode: GradingMode;
+	scheduler: SchedulerId;
+	// Vault folder that Anki exports are written to
+	exportFolder: string;
+	// Deck tag of the Spaced Repetition plugin, without "#"
+	flashcardTag: string;
+	// Calibrated similarity cut-offs per "provider:model" embedding key
+	similarityThresholds: Record<string, SimilarityThresholds>;
 	embeddingProvider: EmbeddingProvider;
+	// Notes embedded at the same time by the background index queue
+	indexConcurrency: number;
+	// Share of keyword (BM25) ranking in cross-topic search, 0 to 1
+	keywordWeight: number;
+	// MMR trade-off between relevance and variety of related context, 0 to 1
+	resultDiversity: number;
+	// Most chunks of one note in related context; 0 for no limit
+	maxChunksPerNote: number;
+	// Filter expression limiting which notes related context comes from; empty for the whole vault
+	contextFilter: string;
 	ollamaEmbeddingModel: string;
-	history: QASession[];
+	openaiCompatibleEmbeddingModel: string;
+	// Sessions saved by older versions; moved to the history store on load
+	history?: QASession[];
+}
+
+// Fields only older versions saved in data.json; migrated and dropped on load
+export interface LegacySettings {
+	// The question generation system prompt, from before prompt templates
+	systemPrompt?: string;
 }
 
 
 export const DEFAULT_SETTINGS: DeepNotesSettings = {
 	provider: "gemini",
 	geminiApiKey: "",
+	openaiApiKey: "",
+	anthropicApiKey: "",
 	ollamaBaseUrl: "http://127.0.0.1:11434",
+	openaiCompatibleBaseUrl: DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+	openaiCompatibleApiKey: "",
 	model: "gemini-2.0-flash",
+	streamResponses: true,
+	contextWindows: {},
+	requestsPerMinute: {},
+	maxRetries: 3,
 	imageOcrEnabled: false,
 	imageOcrProvider: "ollama",
 	imageOcrVisionModel: "llava:latest",
 	imageOcrMaxImages: 5,
 	imageOnlyMode: false,
 	ocrDebugEnabled: false,
-	systemPrompt: DEFAULT_SYSTEM_PROMPT,
+	prompts: [],
+	activePrompts: { ...DEFAULT_ACTIVE_PROMPTS },
+	questionLanguage: "",
+	questionMix: { ...DEFAULT_QUESTION_MIX },
+	questionFormats: ["open"],
+	gradingMode: "similarity",
+	similarityThresholds: {},
+	scheduler: "sm2",
+	exportFolder: "Deep Notes",
+	flashcardTag: "flashcards",
 	embeddingProvider: "gemini",
+	indexConcurrency: 2,
+	keywordWeight: 0.3,
+	resultDiversity: 0.3,
+	maxChunksPerNote: 2,
+	contextFilter: "",
 	ollamaEmbeddingModel: "nomic-embed-text",
-	history: [],
+	openaiCompatibleEmbeddingModel: "",
+};
+
+// Returns the API key configured for a provider (empty for local providers)
+export function getApiKey(settings: DeepNotesSettings, provider: AIProvider): string {
+	switch (provider) {
+		case "gemini":
+			return settings.geminiApiKey;
+		case "openai":
+			return settings.openaiApiKey;
+		case "anthropic":
+			return settings.anthropicApiKey;
+		case "openai-compatible":
+			return settings.openaiCompatibleApiKey;
+		default:
+			return "";
+	}
+}
+
+// Local servers (Ollama, LM Studio, llama.cpp) work without a key
+export function isApiKeyRequired(provider: AIProvider): boolean {
+	return provider !== "ollama" && provider !== "openai-compatible";
+}
+
+// Normalizes the user-entered OpenAI-compatible URL so it always ends in "/v1"
+export function getOpenAICompatibleBaseUrl(settings: DeepNotesSettings): string {
+	const base = (settings.openaiCompatibleBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL).trim().replace(/\/+$/, "");
+	return /\/v1$/.test(base) ? base : `${base}/v1`;
+}
+
+type ApiKeyField = "geminiApiKey" | "openaiApiKey" | "anthropicApiKey" | "openaiCompatibleApiKey";
+
+const API_KEY_FIELDS: Partial<Record<AIProvider, { field: ApiKeyField; placeholder: string }>> = {
+	gemini: { field: "geminiApiKey", placeholder: "AI..." },
+	openai: { field: "openaiApiKey", placeholder: "sk-..." },
+	anthropic: { field: "anthropicApiKey", placeholder: "sk-ant-..." },
+	"openai-compatible": { field: "openaiCompatibleApiKey", placeholder: "Optional" },
 };
 
 export class DeepNotesSettingTab extends PluginSettingTab {
@@ -83,19 +199,11 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 		// API key for current provider
 		   const provider = this.plugin.settings.provider;
 		   if (provider === "gemini") {
-			   new Setting(containerEl)
-				   .setName("Google Gemini API Key")
-				   .setDesc("Your Google AI / Gemini API key")
-				   .addText((text) =>
-					   text
-						   .setPlaceholder("AI...")
-						   .setValue(this.plugin.settings.geminiApiKey)
-						   .then((t) => (t.inputEl.type = "password"))
-						   .onChange(async (value) => {
-							   this.plugin.settings.geminiApiKey = value.trim();
-							   await this.plugin.saveSettings();
-						   })
-				   );
+			   this.addApiKeySetting(containerEl, "gemini", "Google Gemini API Key", "Your Google AI / Gemini API key");
+		   } else if (provider === "openai") {
+			   this.addApiKeySetting(containerEl, "openai", "OpenAI API Key", "Your OpenAI platform API key");
+		   } else if (provider === "anthropic") {
+			   this.addApiKeySetting(containerEl, "anthropic", "Anthropic API Key", "Your Anthropic console API key");
 		   } else if (provider === "ollama") {
 			   new Setting(containerEl)
 				   .setName("Ollama")
@@ -113,14 +221,28 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 							   await this.plugin.saveSettings();
 						   })
 				   );
+		   } else if (provider === "openai-compatible") {
+			   this.addOpenAICompatibleSettings(containerEl);
 		   }
 
 		// Model dropdown (filtered by provider)
 		const models = MODELS_BY_PROVIDER[provider];
-		new Setting(containerEl)
+		const modelSetting = new Setting(containerEl)
 			.setName("Model")
-			.setDesc(`Model to use with ${PROVIDERS.find((p) => p.value === provider)?.label}.`)
-			.addDropdown((dropdown) => {
+			.setDesc(`Model to use with ${PROVIDERS.find((p) => p.value === provider)?.label}.`);
+		if (models.length === 0) {
+			// Free-form model name for servers with their own model catalogue
+			modelSetting.addText((text) =>
+				text
+					.setPlaceholder("e.g. qwen2.5-7b-instruct")
+					.setValue(this.plugin.settings.model)
+					.onChange(async (value) => {
+						this.plugin.settings.model = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+		} else {
+			modelSetting.addDropdown((dropdown) => {
 				for (const m of models) {
 					dropdown.addOption(m, m);
 				}
@@ -129,10 +251,73 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.model = value;
 						await this.plugin.saveSettings();
+						this.display();
 					});
 			});
+		}
+
+		new Setting(containerEl)
+			.setName("Context window")
+			.setDesc("Tokens the model can read at once. Longer notes are split into sections that each fit. Leave empty for the provider default; for Ollama this is also sent as num_ctx.")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(CONTEXT_WINDOW_BY_PROVIDER[provider]))
+					.setValue(String(this.plugin.settings.contextWindows[this.plugin.settings.model] ?? ""))
+					.onChange(async (value) => {
+						const n = parseInt(value, 10);
+						const contextWindows = { ...this.plugin.settings.contextWindows };
+						if (isNaN(n) || n <= 0) {
+							delete contextWindows[this.plugin.settings.model];
+						} else {
+							contextWindows[this.plugin.settings.model] = n;
+						}
+						this.plugin.settings.contextWindows = contextWindows;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Stream responses")
+			.setDesc("Show question cards one by one as they are generated (Gemini, OpenAI, Ollama and OpenAI-compatible).")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.streamResponses)
+					.onChange(async (value) => {
+						this.plugin.settings.streamResponses = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Question language")
+			.setDesc("Language for generated questions and answers ({{language}} in prompts). Leave empty to match the note.")
+			.addText((text) =>
+				text
+					.setPlaceholder("e.g. German")
+					.setValue(this.plugin.settings.questionLanguage)
+					.onChange(async (value) => {
+						this.plugin.settings.questionLanguage = value;
+						await this.plugin.saveSettings();
+					})
+			);
 
-		   // System prompt is now hidden from the settings UI for simplicity and safety.
+		this.addQuestionMixSettings(containerEl);
+		this.addQuestionFormatSettings(containerEl);
+
+		new Setting(containerEl)
+			.setName("Grading")
+			.setDesc("How open answers are scored. Similarity only compares embeddings and costs no chat requests. The AI judge uses the chat model and a rubric and explains what is missing, at one chat request per evaluation. Hybrid blends both scores.")
+			.addDropdown((dropdown) => {
+				for (const mode of GRADING_MODES) {
+					dropdown.addOption(mode.value, mode.label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.gradingMode)
+					.onChange(async (value) => {
+						this.plugin.settings.gradingMode = value as GradingMode;
+						await this.plugin.saveSettings();
+					});
+			});
 
 		containerEl.createEl("h2", { text: "Image Scanning" });
 
@@ -140,38 +325,52 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 			.setName("Vision Provider")
 			.setDesc("Choose which provider to use for scanning images.")
 			.addDropdown((dropdown) => {
-				dropdown.addOption("ollama", "Ollama (Local)");
-				dropdown.addOption("gemini", "Google Gemini");
+				for (const p of PROVIDERS) {
+					dropdown.addOption(p.value, p.label);
+				}
 				dropdown
 					.setValue(this.plugin.settings.imageOcrProvider || "ollama")
 					.onChange(async (value) => {
-						this.plugin.settings.imageOcrProvider = value as "ollama" | "gemini";
+						this.plugin.settings.imageOcrProvider = value as AIProvider;
 						await this.plugin.saveSettings();
 						this.display();
 					});
 			});
 
-		if (this.plugin.settings.imageOcrProvider === "gemini") {
+		const visionProvider = this.plugin.settings.imageOcrProvider;
+		if (visionProvider === "openai-compatible") {
+			if (this.plugin.settings.provider !== "openai-compatible") {
+				this.addOpenAICompatibleSettings(containerEl);
+			}
+
+			new Setting(containerEl)
+				.setName("Vision model")
+				.setDesc("Vision-capable model served by your endpoint (e.g. a LLaVA or Qwen-VL build). Only used with the 'Scan Images' button.")
+				.addText((text) =>
+					text
+						.setPlaceholder("llava-v1.6-mistral-7b")
+						.setValue(this.plugin.settings.imageOcrVisionModel)
+						.onChange(async (value) => {
+							this.plugin.settings.imageOcrVisionModel = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+		} else if (visionProvider !== "ollama") {
+			const visionLabel = PROVIDERS.find((p) => p.value === visionProvider)?.label;
+			const visionModel = VISION_MODEL_BY_PROVIDER[visionProvider];
 			new Setting(containerEl)
-				.setName("Gemini Vision Model")
-				.setDesc("Using 'gemini-2.0-flash' for vision tasks.")
-				.addText((text) => text.setValue("gemini-2.0-flash").setDisabled(true));
-
-			// Ensure Gemini key is visible if not already shown in main provider
-			if (this.plugin.settings.provider !== "gemini") {
-				new Setting(containerEl)
-					.setName("Gemini API Key (for Vision)")
-					.setDesc("Required for Gemini vision.")
-					.addText((text) =>
-						text
-							.setPlaceholder("AI...")
-							.setValue(this.plugin.settings.geminiApiKey)
-							.then((t) => (t.inputEl.type = "password"))
-							.onChange(async (value) => {
-								this.plugin.settings.geminiApiKey = value.trim();
-								await this.plugin.saveSettings();
-							})
-					);
+				.setName(`${visionLabel} Vision Model`)
+				.setDesc(`Using '${visionModel}' for vision tasks.`)
+				.addText((text) => text.setValue(visionModel).setDisabled(true));
+
+			// Ensure the vision provider's key is visible if not already shown in main provider
+			if (this.plugin.settings.provider !== visionProvider) {
+				this.addApiKeySetting(
+					containerEl,
+					visionProvider,
+					`${visionLabel} API Key (for Vision)`,
+					`Required for ${visionLabel} vision.`
+				);
 			}
 		} else {
 			// Ollama
@@ -222,6 +421,7 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 			.addDropdown((dropdown) => {
 				dropdown.addOption("gemini", "Google Gemini (768d)");
 				dropdown.addOption("ollama", "Ollama (Local)");
+				dropdown.addOption("openai-compatible", "OpenAI-Compatible Endpoint");
 				dropdown
 					.setValue(this.plugin.settings.embeddingProvider)
 					.onChange(async (value) => {
@@ -243,6 +443,23 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 				w.setText("⚠️ Gemini API Key is required. Please set it under 'AI Provider' (temporarily switch if needed) or check if you have separate keys logic.");
 				w.style.color = "var(--text-error)";
 			}
+		} else if (this.plugin.settings.embeddingProvider === "openai-compatible") {
+			new Setting(containerEl)
+				.setName("Embedding Model")
+				.setDesc("Embedding model served by your endpoint via /v1/embeddings (e.g. 'nomic-embed-text-v1.5').")
+				.addText((text) =>
+					text
+						.setPlaceholder("nomic-embed-text-v1.5")
+						.setValue(this.plugin.settings.openaiCompatibleEmbeddingModel)
+						.onChange(async (value) => {
+							this.plugin.settings.openaiCompatibleEmbeddingModel = value.trim();
+							await this.plugin.saveSettings();
+						})
+				);
+
+			if (this.plugin.settings.provider !== "openai-compatible" && this.plugin.settings.imageOcrProvider !== "openai-compatible") {
+				this.addOpenAICompatibleSettings(containerEl);
+			}
 		} else {
 			// Ollama
 			new Setting(containerEl)
@@ -264,6 +481,85 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 				.addText((text) => text.setValue(this.plugin.settings.ollamaBaseUrl).setDisabled(true));
 		}
 
+		new Setting(containerEl)
+			.setName("Indexing concurrency")
+			.setDesc("Notes embedded at the same time while indexing in the background. Raise it for fast local models; keep it low on rate-limited APIs, which also respect the limits under 'Rate Limits'.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 8, 1)
+					.setValue(this.plugin.settings.indexConcurrency)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.indexConcurrency = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Keyword weight")
+			.setDesc("How much exact keyword matches (BM25) count against embedding similarity when finding related notes. 0% uses embeddings only; raise it if related notes miss exact terms, acronyms or names.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 100, 5)
+					.setValue(Math.round(this.plugin.settings.keywordWeight * 100))
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.keywordWeight = value / 100;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Result diversity")
+			.setDesc("How strongly related context favours chunks that differ from each other over the closest matches. 0% ranks by relevance only.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 100, 5)
+					.setValue(Math.round(this.plugin.settings.resultDiversity * 100))
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.resultDiversity = value / 100;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Max chunks per note")
+			.setDesc("Most passages taken from any one related note, so cross-topic questions draw on several notes. 0 for no limit.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 5, 1)
+					.setValue(this.plugin.settings.maxChunksPerNote)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxChunksPerNote = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const filterSetting = new Setting(containerEl)
+			.setName("Related notes filter")
+			.addText((text) =>
+				text
+					.setPlaceholder("folder:Courses/Biology tag:exam-1")
+					.setValue(this.plugin.settings.contextFilter)
+					.onChange(async (value) => {
+						this.plugin.settings.contextFilter = value;
+						await this.plugin.saveSettings();
+						describeFilter(value);
+					})
+			);
+		const describeFilter = (value: string) => {
+			const { errors } = parseSearchFilter(value);
+			filterSetting.setDesc(
+				errors.length > 0
+					? errors.join(" ")
+					: "Only take related context from matching notes, e.g. 'folder:Courses/Biology', 'tag:exam-1', 'modified>=2026-09-01' or a frontmatter field like 'course:BIO101'. Terms must all match; use OR for alternatives and '-' to exclude. Leave empty to search the whole vault."
+			);
+			filterSetting.descEl.style.color = errors.length > 0 ? "var(--text-error)" : "";
+		};
+		describeFilter(this.plugin.settings.contextFilter);
+
 		// Logic to ensure Gemini API key is visible/set-able if Embedding Provider is Gemini
 		// AND Main provider is NOT Gemini AND Vision Provider is NOT Gemini (since we add logic for that above too)
 		// Basically: If any Gemini feature is on, show the key field if not already shown.
@@ -284,19 +580,400 @@ export class DeepNotesSettingTab extends PluginSettingTab {
 		//    I'll keep it as is. It's user-friendly.
 
 		if (this.plugin.settings.embeddingProvider === "gemini" && this.plugin.settings.provider !== "gemini") {
+			this.addApiKeySetting(containerEl, "gemini", "Gemini API Key (for Embeddings)", "Required for Gemini embeddings.");
+		}
+
+		this.addSimilarityCalibration(containerEl);
+
+		containerEl.createEl("h2", { text: "Spaced Repetition" });
+
+		new Setting(containerEl)
+			.setName("Scheduler")
+			.setDesc("Algorithm that schedules each question after it is graded. Cards keep their history when you switch.")
+			.addDropdown((dropdown) => {
+				for (const scheduler of SCHEDULERS) {
+					dropdown.addOption(scheduler.value, scheduler.label);
+				}
+				dropdown
+					.setValue(this.plugin.settings.scheduler)
+					.onChange(async (value) => {
+						this.plugin.settings.scheduler = value as SchedulerId;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		this.addExportSettings(containerEl);
+		this.addPromptSettings(containerEl);
+		this.addRateLimitSettings(containerEl);
+	}
+
+	private addExportSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h2", { text: "Export" });
+
+		new Setting(containerEl)
+			.setName("Export folder")
+			.setDesc("Vault folder for Anki exports (.apkg, CSV and TSV). Created on first export.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Deep Notes")
+					.setValue(this.plugin.settings.exportFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.exportFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Flashcard tag")
+			.setDesc("Tag that marks the cards written into notes for the Spaced Repetition plugin. Must match a flashcard tag in that plugin's settings.")
+			.addText((text) =>
+				text
+					.setPlaceholder("flashcards")
+					.setValue(this.plugin.settings.flashcardTag)
+					.onChange(async (value) => {
+						this.plugin.settings.flashcardTag = value.trim().replace(/^#/, "") || DEFAULT_SETTINGS.flashcardTag;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	// Similarity cut-offs of the active embedding model; each model is calibrated separately
+	private addSimilarityCalibration(containerEl: HTMLElement): void {
+		const settings = this.plugin.settings;
+		const thresholds = getSimilarityThresholds(settings);
+		const current = thresholds.calibratedAt
+			? `Calibrated on ${new Date(thresholds.calibratedAt).toLocaleDateString()}: correct from ${thresholds.correct}, partial from ${thresholds.partial}.`
+			: `Using the defaults: correct from ${thresholds.correct}, partial from ${thresholds.partial}.`;
+
+		const setting = new Setting(containerEl)
+			.setName("Similarity thresholds")
+			.setDesc(`${current} Calibrate to fit them to the embedding model; this embeds a built-in set of graded answers.`)
+			.addButton((button) =>
+				button.setButtonText("Calibrate").onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const key = getEmbeddingModelKey(settings);
+						const { thresholds: result, medians } = await calibrateSimilarity(settings, (done, total) =>
+							button.setButtonText(`Calibrating ${done}/${total}...`)
+						);
+						if (result) {
+							settings.similarityThresholds = { ...settings.similarityThresholds, [key]: result };
+							new Notice(`Similarity thresholds calibrated: correct from ${result.correct}, partial from ${result.partial}.`);
+						} else {
+							// The model cannot tell the grades apart; thresholds from it would be meaningless
+							const { [key]: _removed, ...rest } = settings.similarityThresholds;
+							settings.similarityThresholds = rest;
+							new Notice(
+								`This embedding model does not separate correct, partial and wrong answers (median similarities ${medians.correct.toFixed(2)}, ${medians.partial.toFixed(2)}, ${medians.incorrect.toFixed(2)}). Keeping the default thresholds.`,
+								8000
+							);
+						}
+						await this.plugin.saveSettings();
+					} catch (e) {
+						new Notice(`Calibration failed: ${describeError(e)}`);
+					}
+					this.display();
+				})
+			);
+
+		if (thresholds.calibratedAt) {
+			setting.addExtraButton((button) =>
+				button
+					.setIcon("reset")
+					.setTooltip("Use the defaults")
+					.onClick(async () => {
+						const { [getEmbeddingModelKey(settings)]: _removed, ...rest } = settings.similarityThresholds;
+						settings.similarityThresholds = rest;
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+		}
+	}
+
+	// Which answer formats questions may use; closed formats are graded without embeddings
+	private addQuestionFormatSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("Question formats")
+			.setDesc("Questions are spread across the enabled formats. Multiple choice, cloze, true/false and ordering are graded exactly instead of by similarity.")
+			.setHeading();
+
+		for (const format of QUESTION_FORMATS) {
+			new Setting(containerEl)
+				.setName(FORMAT_LABELS[format])
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings.questionFormats.includes(format))
+						.onChange(async (value) => {
+							const formats = this.plugin.settings.questionFormats.filter((f) => f !== format);
+							this.plugin.settings.questionFormats = value
+								? QUESTION_FORMATS.filter((f) => f === format || formats.includes(f))
+								: formats;
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	// Default number of items per type; the view can override it for a single run
+	private addQuestionMixSettings(containerEl: HTMLElement): void {
+		const mixSetting = new Setting(containerEl)
+			.setName("Question mix")
+			.setHeading();
+		const updateTotal = () =>
+			mixSetting.setDesc(`${totalCount(this.plugin.settings.questionMix)} items per run. Cross-topic slots become recall questions when no related notes are found.`);
+		updateTotal();
+
+		for (const [type, label] of Object.entries(ITEM_TYPE_LABELS) as [keyof QuestionMix, string][]) {
 			new Setting(containerEl)
-				.setName("Gemini API Key (for Embeddings)")
-				.setDesc("Required for Gemini embeddings.")
+				.setName(label)
+				.addSlider((slider) =>
+					slider
+						.setLimits(0, MAX_ITEMS_PER_TYPE, 1)
+						.setValue(this.plugin.settings.questionMix[type] ?? 0)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.questionMix = { ...this.plugin.settings.questionMix, [type]: value };
+							updateTotal();
+							await this.plugin.saveSettings();
+						})
+				);
+		}
+	}
+
+	private addPromptSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h2", { text: "Prompt Templates" });
+		containerEl.createEl("p", {
+			text: "Each request renders a system prompt and a user message from the active template. Placeholders in {{double braces}} are filled in per request.",
+			cls: "setting-item-description",
+		});
+
+		for (const kind of PROMPT_KINDS) {
+			this.addPromptEditor(containerEl, kind);
+		}
+	}
+
+	// Template picker plus editors for the active template of one prompt kind
+	private addPromptEditor(containerEl: HTMLElement, kind: typeof PROMPT_KINDS[number]): void {
+		const settings = this.plugin.settings;
+		const active = getActivePrompt(settings, kind.value);
+		const builtin = getBuiltinPrompt(active.id);
+		const edited = settings.prompts.some((p) => p.id === active.id);
+
+		containerEl.createEl("h3", { text: kind.label });
+
+		const picker = new Setting(containerEl)
+			.setName("Template")
+			.setDesc(`Variables: ${kind.variables.map((v) => `{{${v}}}`).join(", ")}`)
+			.addDropdown((dropdown) => {
+				for (const p of listPrompts(settings, kind.value)) {
+					const isEditedBuiltin = getBuiltinPrompt(p.id) && settings.prompts.some((s) => s.id === p.id);
+					dropdown.addOption(p.id, isEditedBuiltin ? `${p.name} (edited)` : p.name);
+				}
+				dropdown.setValue(active.id).onChange(async (value) => {
+					settings.activePrompts = { ...settings.activePrompts, [kind.value]: value };
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			})
+			.addExtraButton((button) =>
+				button
+					.setIcon("copy")
+					.setTooltip("Duplicate as a new template")
+					.onClick(async () => {
+						const copy: PromptTemplate = {
+							id: `custom-${Date.now()}`,
+							name: `${active.name} (copy)`,
+							kind: kind.value,
+							system: active.system,
+							user: active.user,
+						};
+						settings.prompts = [...settings.prompts, copy];
+						settings.activePrompts = { ...settings.activePrompts, [kind.value]: copy.id };
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		if (builtin && edited) {
+			picker.addExtraButton((button) =>
+				button
+					.setIcon("reset")
+					.setTooltip("Reset to default")
+					.onClick(() => this.resetPrompt(active.id))
+			);
+		} else if (!builtin) {
+			picker.addExtraButton((button) =>
+				button
+					.setIcon("trash")
+					.setTooltip("Delete template")
+					.onClick(async () => {
+						settings.prompts = settings.prompts.filter((p) => p.id !== active.id);
+						settings.activePrompts = { ...settings.activePrompts, [kind.value]: DEFAULT_ACTIVE_PROMPTS[kind.value] };
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+			new Setting(containerEl)
+				.setName("Name")
+				.addText((text) =>
+					text.setValue(active.name).onChange(async (value) => {
+						this.updatePrompt(active.id, { name: value.trim() || "Untitled" });
+						await this.plugin.saveSettings();
+					})
+				);
+		}
+
+		if (builtin && edited && active.basedOn && active.basedOn.version < builtin.version) {
+			new Setting(containerEl)
+				.setName("New default available")
+				.setDesc(`The built-in prompt was updated (version ${builtin.version}) after you edited it.`)
+				.addButton((button) =>
+					button
+						.setButtonText("Use new default")
+						.setCta()
+						.onClick(() => this.resetPrompt(active.id))
+				)
+				.addButton((button) =>
+					button.setButtonText("Keep mine").onClick(async () => {
+						this.updatePrompt(active.id, { basedOn: { id: builtin.id, version: builtin.version } });
+						await this.plugin.saveSettings();
+						this.display();
+					})
+				);
+		}
+
+		for (const field of ["system", "user"] as const) {
+			new Setting(containerEl)
+				.setName(field === "system" ? "System prompt" : "User message")
+				.setClass("deep-notes-prompt-setting")
+				.addTextArea((textArea) => {
+					textArea.setValue(active[field]).onChange(async (value) => {
+						this.updatePrompt(active.id, { [field]: value });
+						await this.plugin.saveSettings();
+					});
+					textArea.inputEl.rows = field === "system" ? 14 : 5;
+				});
+		}
+	}
+
+	// Saves a change to a template; the first edit of a built-in stores a copy that remembers the default's version
+	private updatePrompt(id: string, changes: Partial<PromptTemplate>): void {
+		const prompts = this.plugin.settings.prompts;
+		const index = prompts.findIndex((p) => p.id === id);
+		if (index >= 0) {
+			prompts[index] = { ...prompts[index], ...changes };
+			return;
+		}
+
+		const builtin = getBuiltinPrompt(id);
+		if (!builtin) return;
+		prompts.push({
+			id: builtin.id,
+			name: builtin.name,
+			kind: builtin.kind,
+			system: builtin.system,
+			user: builtin.user,
+			basedOn: { id: builtin.id, version: builtin.version },
+			...changes,
+		});
+	}
+
+	private async resetPrompt(id: string): Promise<void> {
+		this.plugin.settings.prompts = this.plugin.settings.prompts.filter((p) => p.id !== id);
+		await this.plugin.saveSettings();
+		this.display();
+	}
+
+	// Retry count plus a requests-per-minute cap for each provider in use
+	private addRateLimitSettings(containerEl: HTMLElement): void {
+		containerEl.createEl("h2", { text: "Rate Limits" });
+
+		new Setting(containerEl)
+			.setName("Max retries")
+			.setDesc("How often a request is retried after a rate limit, timeout or server error. Waits grow exponentially and honor Retry-After.")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 6, 1)
+					.setValue(this.plugin.settings.maxRetries)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxRetries = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		const inUse = new Set<AIProvider>([
+			this.plugin.settings.provider,
+			this.plugin.settings.imageOcrProvider,
+			this.plugin.settings.embeddingProvider,
+		]);
+
+		for (const p of PROVIDERS) {
+			if (!inUse.has(p.value)) continue;
+
+			new Setting(containerEl)
+				.setName(`${p.label} requests per minute`)
+				.setDesc(p.value === "gemini"
+					? "0 = unlimited. The Gemini free tier allows about 15 requests per minute."
+					: "0 = unlimited. Requests over the limit wait for a free slot instead of failing.")
 				.addText((text) =>
 					text
-						.setPlaceholder("AI...")
-						.setValue(this.plugin.settings.geminiApiKey)
-						.then((t) => (t.inputEl.type = "password"))
+						.setPlaceholder("0")
+						.setValue(String(this.plugin.settings.requestsPerMinute[p.value] ?? 0))
 						.onChange(async (value) => {
-							this.plugin.settings.geminiApiKey = value.trim();
+							const n = parseInt(value, 10);
+							this.plugin.settings.requestsPerMinute = {
+								...this.plugin.settings.requestsPerMinute,
+								[p.value]: isNaN(n) || n < 0 ? 0 : n,
+							};
 							await this.plugin.saveSettings();
 						})
 				);
 		}
 	}
+
+	// Renders the base URL and optional bearer token for the OpenAI-compatible endpoint
+	private addOpenAICompatibleSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName("OpenAI-Compatible Base URL")
+			.setDesc("Server exposing /v1/chat/completions and /v1/embeddings (LM Studio, llama.cpp server, vLLM).")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_OPENAI_COMPATIBLE_BASE_URL)
+					.setValue(this.plugin.settings.openaiCompatibleBaseUrl)
+					.onChange(async (value) => {
+						this.plugin.settings.openaiCompatibleBaseUrl = value.trim() || DEFAULT_OPENAI_COMPATIBLE_BASE_URL;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		this.addApiKeySetting(
+			containerEl,
+			"openai-compatible",
+			"Bearer Token",
+			"Optional. Sent as 'Authorization: Bearer <token>' if your server requires one."
+		);
+	}
+
+	// Renders a password field bound to the API key of the given provider
+	private addApiKeySetting(containerEl: HTMLElement, provider: AIProvider, name: string, desc: string): void {
+		const keyField = API_KEY_FIELDS[provider];
+		if (!keyField) return;
+
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(keyField.placeholder)
+					.setValue(this.plugin.settings[keyField.field])
+					.then((t) => (t.inputEl.type = "password"))
+					.onChange(async (value) => {
+						this.plugin.settings[keyField.field] = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+	}
 }
@@ -0,0 +1,73 @@
+/**
+ * Incrementally parses a JSON array as it streams in, emitting each top-level
+ * object as soon as its closing brace arrives. Text before the first "[" (code
+ * fences, preambles, a wrapping {"items": ...}) is ignored, as are non-object
+ * array entries.
+ */
+export class JsonArrayStreamParser {
+	private started = false;
+	private finished = false;
+	private depth = 0;
+	private inString = false;
+	private escaped = false;
+	private current = "";
+
+	constructor(private onObject: (value: Record<string, unknown>) => void) {}
+
+	push(chunk: string): void {
+		for (const c of chunk) {
+			if (this.finished) return;
+
+			if (!this.started) {
+				if (c === "[") this.started = true;
+				continue;
+			}
+
+			if (this.depth === 0) {
+				if (c === "{") {
+					this.depth = 1;
+					this.current = c;
+				} else if (c === "]") {
+					this.finished = true;
+				}
+				continue;
+			}
+
+			this.current += c;
+
+			if (this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (c === "\\") {
+					this.escaped = true;
+				} else if (c === "\"") {
+					this.inString = false;
+				}
+				continue;
+			}
+
+			if (c === "\"") {
+				this.inString = true;
+			} else if (c === "{" || c === "[") {
+				this.depth++;
+			} else if (c === "}" || c === "]") {
+				this.depth--;
+				if (this.depth === 0) {
+					this.emit(this.current);
+					this.current = "";
+				}
+			}
+		}
+	}
+
+	private emit(raw: string): void {
+		try {
+			const parsed = JSON.parse(raw.replace(/,\s*([\]}])/g, "$1"));
+			if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+				this.onObject(parsed as Record<string, unknown>);
+			}
+		} catch (e) {
+			console.warn("Deep Notes: Skipping malformed streamed item", e);
+		}
+	}
+}
@@ -0,0 +1,121 @@
+import { AIProvider, CONTEXT_WINDOW_BY_PROVIDER } from "./constants";
+import type { DeepNotesSettings } from "./settings";
+import { splitNote } from "./vectorStore";
+
+// Tokens kept free for the model's reply (capped at a quarter of small windows)
+const OUTPUT_RESERVE = 2048;
+const MIN_INPUT_BUDGET = 512;
+// Least room left for the note itself, however long the prompt template is
+export const MIN_NOTE_BUDGET = 256;
+
+export interface NoteSection {
+	heading: string;
+	text: string;
+}
+
+// Rough estimate without a tokenizer: ~4 characters per token for Latin text, ~1 per CJK character
+export function estimateTokens(text: string): number {
+	const cjk = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g) ?? []).length;
+	return Math.ceil((text.length - cjk) / 4) + cjk;
+}
+
+// The user's per-model setting, else the provider default
+export function getContextWindow(settings: DeepNotesSettings, provider: AIProvider, model: string): number {
+	const override = settings.contextWindows?.[model];
+	return override && override > 0 ? override : CONTEXT_WINDOW_BY_PROVIDER[provider];
+}
+
+// Tokens left for the user message once the system prompt and the reply are accounted for
+export function getInputBudget(settings: DeepNotesSettings, systemPrompt: string): number {
+	const window = getContextWindow(settings, settings.provider, settings.model);
+	const reserve = Math.min(OUTPUT_RESERVE, Math.floor(window / 4));
+	return Math.max(window - reserve - estimateTokens(systemPrompt), MIN_INPUT_BUDGET);
+}
+
+/**
+ * Groups the heading chunks from splitNote into sections that each fit the budget,
+ * re-inserting the headings so every section keeps its structure.
+ */
+export function splitIntoSections(content: string, budgetTokens: number): NoteSection[] {
+	const sections: NoteSection[] = [];
+	let current: NoteSection | null = null;
+	let lastHeading = "";
+
+	for (const chunk of splitNote(content, "")) {
+		for (const piece of splitOversized(chunk.text, budgetTokens)) {
+			const headed = `## ${chunk.heading}\n${piece}`;
+			const text = chunk.heading !== lastHeading ? headed : piece;
+			lastHeading = chunk.heading;
+
+			if (current && estimateTokens(current.text) + estimateTokens(text) > budgetTokens) {
+				sections.push(current);
+				current = null;
+			}
+			if (current) {
+				current.text += `\n\n${text}`;
+			} else {
+				current = { heading: chunk.heading, text: headed };
+			}
+		}
+	}
+
+	if (current) {
+		sections.push(current);
+	}
+	return sections;
+}
+
+/**
+ * Shortens content to the budget by keeping the chunks that share the most words
+ * with `focus`, in note order. Returns the content unchanged if it already fits.
+ */
+export function selectRelevantText(content: string, budgetTokens: number, focus: string): string {
+	if (estimateTokens(content) <= budgetTokens) {
+		return content;
+	}
+
+	const focusWords = new Set(toWords(focus));
+	const chunks = splitNote(content, "").map((chunk) => ({
+		chunk,
+		score: toWords(chunk.text).filter((w) => focusWords.has(w)).length,
+	}));
+
+	// Array.sort is stable, so equally relevant chunks stay in note order
+	const ranked = [...chunks].sort((a, b) => b.score - a.score);
+	const chosen = new Set<number>();
+	let used = 0;
+	for (const { chunk } of ranked) {
+		const tokens = estimateTokens(chunk.text);
+		if (used + tokens > budgetTokens) continue;
+		chosen.add(chunk.chunkIndex);
+		used += tokens;
+	}
+
+	// Budget smaller than any chunk: cut the most relevant one
+	if (chosen.size === 0 && ranked.length > 0) {
+		return splitOversized(ranked[0].chunk.text, budgetTokens)[0];
+	}
+
+	return chunks
+		.filter(({ chunk }) => chosen.has(chunk.chunkIndex))
+		.map(({ chunk }) => chunk.text)
+		.join("\n\n[...]\n\n");
+}
+
+// splitNote keeps long paragraphs whole; cut them so a single chunk never exceeds the budget
+function splitOversized(text: string, budgetTokens: number): string[] {
+	const tokens = estimateTokens(text);
+	if (tokens <= budgetTokens) {
+		return [text];
+	}
+	const maxChars = Math.max(1, Math.floor((budgetTokens * text.length) / tokens));
+	const pieces: string[] = [];
+	for (let i = 0; i < text.length; i += maxChars) {
+		pieces.push(text.slice(i, i + maxChars));
+	}
+	return pieces;
+}
+
+function toWords(text: string): string[] {
+	return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((w) => w.length > 3);
+}
@@ -1,5 +1,9 @@
 import { LocalIndex, MetadataTypes } from "vectra";
 import type { TFile } from "obsidian";
+import type { KeywordIndex } from "./keywordIndex";
+import { matchesFilter, SearchFilter } from "./searchFilter";
+import { cosineSimilarity } from "./embeddings";
+import { throwIfAborted } from "./abort";
 
 export interface NoteChunk {
     text: string;
@@ -8,69 +12,218 @@ export interface NoteChunk {
     heading: string;
 }
 
+// Note-level fields stored with every chunk so searches can be filtered
+export interface NoteMetadata {
+    folder: string;
+    // Without "#"
+    tags: string[];
+    frontmatter: Record<string, unknown>;
+    ctime: number;
+    mtime: number;
+}
+
 export interface SearchResult {
     text: string;
     filePath: string;
+    chunkIndex: number;
     noteTitle: string;
     heading: string;
     score: number;
 }
 
+// Chunks of one note found by a search
+export interface RelatedNote {
+    filePath: string;
+    noteTitle: string;
+    // Best chunk score plus diminishing credit for each further chunk
+    score: number;
+    chunks: SearchResult[];
+}
+
+export interface SearchOptions {
+    excludeFilePath?: string;
+    // Text for the keyword side of the search; without it only vectors are used
+    queryText?: string;
+    // Share of the keyword ranking in the fused result, 0 to 1
+    keywordWeight?: number;
+    // Only chunks of notes matching the filter are returned
+    filter?: SearchFilter | null;
+    // Maximal marginal relevance trade-off, 0 to 1: 0 ranks by relevance only,
+    // higher values favour chunks unlike those already picked
+    diversity?: number;
+    // At most this many chunks per note; 0 for no limit
+    maxChunksPerNote?: number;
+}
+
+// Reciprocal rank fusion constant; damps the difference between the top ranks
+const RRF_K = 60;
+// Shorter chunks are not embedded
+const MIN_CHUNK_LENGTH = 30;
+
 interface ChunkMetadata extends Record<string, MetadataTypes> {
     filePath: string;
     chunkIndex: number;
     heading: string;
     text: string;
     mtime: number;
+    folder: string;
+    // Space-separated, since vectra metadata holds only primitives
+    tags: string;
+    // JSON
+    frontmatter: string;
+    ctime: number;
 }
 
 export class VaultVectorStore {
     private index: LocalIndex;
     private indexPath: string;
+    readonly keywords: KeywordIndex;
+    // Tail of the chain of index updates
+    private pendingUpdate: Promise<void> = Promise.resolve();
 
-    constructor(pluginDir: string) {
+    constructor(pluginDir: string, keywords: KeywordIndex) {
         this.indexPath = `${pluginDir}/vectors`;
         this.index = new LocalIndex(this.indexPath);
+        this.keywords = keywords;
     }
 
     async initialize(): Promise<void> {
         if (!(await this.index.isIndexCreated())) {
             await this.index.createIndex();
         }
+
+        await this.keywords.load();
+        if (this.keywords.size === 0) {
+            // Indexes built before keyword search: the chunk text is already stored with the vectors
+            const items = await this.index.listItems();
+            if (items.length > 0) {
+                console.log(`[DeepNotes] Building keyword index from ${items.length} indexed chunks`);
+                this.keywords.restoreChunks(items.map((item) => {
+                    const meta = item.metadata as unknown as ChunkMetadata;
+                    return {
+                        text: meta.text,
+                        filePath: meta.filePath,
+                        chunkIndex: meta.chunkIndex,
+                        heading: meta.heading,
+                        ...toNoteMetadata(meta),
+                    };
+                }));
+            }
+        }
     }
 
     async indexNote(
         file: TFile,
         content: string,
-        embedFn: (text: string) => Promise<number[]>
+        embedFn: (text: string) => Promise<number[]>,
+        note: NoteMetadata = emptyNoteMetadata(file.path, file.stat.mtime),
+        signal?: AbortSignal
     ): Promise<void> {
-        // Remove old chunks for this file
-        await this.removeNote(file.path);
-
         const chunks = chunkNote(content, file.path);
         console.log(`[DeepNotes] Chunked ${file.path} into ${chunks.length} chunks`);
 
+        // Embed first, so a failed embedding leaves the note's old chunks in place
+        const embedded: { chunk: NoteChunk; vector: number[] }[] = [];
         for (const chunk of chunks) {
             const vector = await embedFn(chunk.text);
             if (!vector || vector.length === 0) {
                 console.warn(`[DeepNotes] Empty vector for chunk in ${file.path}`);
                 continue;
             }
-            console.log(`[DeepNotes] Inserting chunk ${chunk.chunkIndex} (vector dim: ${vector.length})`);
-            await this.index.insertItem({
-                vector,
-                metadata: {
-                    filePath: chunk.filePath,
-                    chunkIndex: chunk.chunkIndex,
-                    heading: chunk.heading,
-                    text: chunk.text,
-                    mtime: file.stat.mtime,
-                } as ChunkMetadata,
-            });
+            embedded.push({ chunk, vector });
         }
+
+        await this.update(async () => {
+            // Aborted while waiting for earlier updates, e.g. the note was renamed meanwhile
+            throwIfAborted(signal);
+            await this.deleteChunks(file.path);
+            for (const { chunk, vector } of embedded) {
+                await this.index.insertItem({
+                    vector,
+                    metadata: {
+                        filePath: chunk.filePath,
+                        chunkIndex: chunk.chunkIndex,
+                        heading: chunk.heading,
+                        text: chunk.text,
+                        ...toChunkFields(note),
+                    } as ChunkMetadata,
+                });
+            }
+        });
+        console.log(`[DeepNotes] Inserted ${embedded.length} chunks for ${file.path}`);
+        this.keywords.setNote(file.path, chunks, note);
     }
 
-    async removeNote(filePath: string): Promise<void> {
+    /**
+     * Indexed notes with the modification time they were indexed at, and whether
+     * their chunks were stored before note metadata was.
+     */
+    async indexedNotes(): Promise<Map<string, { mtime: number; lacksMetadata: boolean }>> {
+        const notes = new Map<string, { mtime: number; lacksMetadata: boolean }>();
+        for (const item of await this.index.listItems()) {
+            const meta = item.metadata as unknown as ChunkMetadata;
+            if (!notes.has(meta.filePath)) {
+                notes.set(meta.filePath, { mtime: meta.mtime, lacksMetadata: typeof meta.tags !== "string" });
+            }
+        }
+        return notes;
+    }
+
+    // Replaces the stored note metadata of notes' chunks without embedding them again
+    async updateNoteMetadata(notes: Map<string, NoteMetadata>): Promise<void> {
+        const fields = new Map<string, Partial<ChunkMetadata>>();
+        for (const [filePath, note] of notes) {
+            fields.set(filePath, toChunkFields(note));
+        }
+        await this.rewriteMetadata(fields);
+        for (const [filePath, note] of notes) {
+            this.keywords.setNoteMetadata(filePath, note);
+        }
+    }
+
+    // Re-keys a renamed or moved note's chunks; its vectors stay valid
+    async renameNote(oldPath: string, newPath: string, note: NoteMetadata): Promise<void> {
+        await this.rewriteMetadata(new Map([[oldPath, { filePath: newPath, ...toChunkFields(note) }]]));
+        this.keywords.renameNote(oldPath, newPath, note);
+    }
+
+    // Overwrites metadata fields of the chunks of several notes in a single index write
+    private async rewriteMetadata(fields: Map<string, Partial<ChunkMetadata>>): Promise<void> {
+        await this.update(async () => {
+            for (const item of await this.index.listItems()) {
+                const update = fields.get((item.metadata as unknown as ChunkMetadata).filePath);
+                if (!update) continue;
+                await this.index.upsertItem({
+                    id: item.id,
+                    vector: item.vector,
+                    metadata: { ...item.metadata, ...update } as ChunkMetadata,
+                });
+            }
+        });
+    }
+
+    /**
+     * Runs `fn` as one vectra update. Updates are queued so notes indexed at the
+     * same time never start overlapping updates, which vectra rejects.
+     */
+    private update(fn: () => Promise<void>): Promise<void> {
+        const run = this.pendingUpdate.then(async () => {
+            await this.index.beginUpdate();
+            try {
+                await fn();
+                await this.index.endUpdate();
+            } catch (e) {
+                this.index.cancelUpdate();
+                throw e;
+            }
+        });
+        // Later updates wait for this one whether or not it fails
+        this.pendingUpdate = run.catch(() => undefined);
+        return run;
+    }
+
+    // Deletes a note's chunks; call inside update()
+    private async deleteChunks(filePath: string): Promise<void> {
         const results = await this.index.listItemsByMetadata({
             filePath,
         } as Partial<ChunkMetadata>);
@@ -80,24 +233,101 @@ export class VaultVectorStore {
         }
     }
 
-    async clearIndex(): Promise<void> {
-        if (await this.index.isIndexCreated()) {
-            await this.index.deleteIndex();
-            await this.index.createIndex();
+    /**
+     * Notes with chunks in either index whose files no longer exist, with their
+     * chunk counts in the vector index.
+     */
+    async findOrphans(exists: (filePath: string) => boolean): Promise<Map<string, number>> {
+        const orphans = new Map<string, number>();
+        for (const item of await this.index.listItems()) {
+            const { filePath } = item.metadata as unknown as ChunkMetadata;
+            if (!exists(filePath)) orphans.set(filePath, (orphans.get(filePath) ?? 0) + 1);
+        }
+        for (const filePath of this.keywords.notePaths()) {
+            if (!exists(filePath) && !orphans.has(filePath)) orphans.set(filePath, 0);
         }
+        return orphans;
     }
 
+    async removeNote(filePath: string): Promise<void> {
+        await this.update(() => this.deleteChunks(filePath));
+        this.keywords.removeNote(filePath);
+    }
+
+    async clearIndex(): Promise<void> {
+        const clear = this.pendingUpdate.then(async () => {
+            if (await this.index.isIndexCreated()) {
+                await this.index.deleteIndex();
+                await this.index.createIndex();
+            }
+        });
+        this.pendingUpdate = clear.catch(() => undefined);
+        await clear;
+        this.keywords.clear();
+    }
+
+    /**
+     * Vector search, fused with keyword (BM25) search when query text is given,
+     * then diversified. Scores of fused results are reciprocal rank fusion
+     * scores, not similarities.
+     */
     async search(
         queryEmbedding: number[],
         topK: number,
-        excludeFilePath?: string
+        options: SearchOptions = {}
+    ): Promise<SearchResult[]> {
+        const { excludeFilePath, queryText, filter } = options;
+        const keywordWeight = queryText ? Math.min(1, Math.max(0, options.keywordWeight ?? 0)) : 0;
+        const diversity = Math.min(1, Math.max(0, options.diversity ?? 0));
+        const maxChunksPerNote = Math.max(0, options.maxChunksPerNote ?? 0);
+        const rerank = diversity > 0 || maxChunksPerNote > 0;
+        // Fusion and reranking work best with more candidates than results
+        const candidates = keywordWeight > 0 || rerank ? Math.max(topK * 4, 20) : topK;
+
+        let ranked = keywordWeight < 1 ? await this.vectorSearch(queryEmbedding, candidates, excludeFilePath, filter) : [];
+        if (keywordWeight > 0) {
+            const keywordResults = this.keywords.search(queryText!, candidates, (filePath, note) =>
+                filePath !== excludeFilePath && (!filter || matchesFilter(filter, filePath, note))
+            );
+            ranked = fuseRankings([
+                { results: ranked, weight: 1 - keywordWeight },
+                { results: keywordResults, weight: keywordWeight },
+            ]);
+        }
+        if (!rerank) {
+            return ranked.slice(0, topK);
+        }
+
+        const vectors = diversity > 0 ? await this.chunkVectors(ranked) : new Map<string, number[]>();
+        return diversifyResults(ranked, topK, { diversity, maxChunksPerNote, vectors });
+    }
+
+    // Stored vectors of the given chunks, by chunk key
+    private async chunkVectors(results: SearchResult[]): Promise<Map<string, number[]>> {
+        const wanted = new Set(results.map(chunkKey));
+        const vectors = new Map<string, number[]>();
+        for (const item of await this.index.listItems()) {
+            const key = chunkKey(item.metadata as unknown as ChunkMetadata);
+            if (wanted.has(key)) vectors.set(key, item.vector);
+        }
+        return vectors;
+    }
+
+    private async vectorSearch(
+        queryEmbedding: number[],
+        topK: number,
+        excludeFilePath?: string,
+        filter?: SearchFilter | null
     ): Promise<SearchResult[]> {
-        const results = await this.index.queryItems(queryEmbedding, "", topK + 5, undefined);
+        // A filter may reject any number of the nearest chunks, so rank them all
+        const limit = filter ? Number.MAX_SAFE_INTEGER : topK + 5;
+        const results = await this.index.queryItems(queryEmbedding, "", limit, undefined);
 
         return results
             .filter((r) => {
                 const meta = r.item.metadata as unknown as ChunkMetadata;
-                return !excludeFilePath || meta.filePath !== excludeFilePath;
+                if (excludeFilePath && meta.filePath === excludeFilePath) return false;
+                return !filter || matchesFilter(filter, meta.filePath, toNoteMetadata(meta));
             })
             .slice(0, topK)
             .map((r) => {
@@ -107,6 +337,7 @@ export class VaultVectorStore {
                 return {
                     text: meta.text,
                     filePath: meta.filePath,
+                    chunkIndex: meta.chunkIndex,
                     noteTitle,
                     heading: meta.heading,
                     score: r.score,
@@ -114,27 +345,151 @@ export class VaultVectorStore {
             });
     }
 
-    async isIndexed(filePath: string, mtime: number): Promise<boolean> {
-        const results = await this.index.listItemsByMetadata({
-            filePath,
-        } as Partial<ChunkMetadata>);
-
-        if (results.length === 0) return false;
-        const storedMtime = (results[0].metadata as unknown as ChunkMetadata).mtime;
-        return storedMtime === mtime;
-    }
-
     async getStats(): Promise<{ totalChunks: number }> {
         const items = await this.index.listItems();
         return { totalChunks: items.length };
     }
 }
 
+// Metadata for chunks stored without it: only the folder is known
+export function emptyNoteMetadata(filePath: string, mtime: number): NoteMetadata {
+    return {
+        folder: filePath.includes("/") ? filePath.slice(0, filePath.lastIndexOf("/")) : "",
+        tags: [],
+        frontmatter: {},
+        ctime: 0,
+        mtime,
+    };
+}
+
+function toChunkFields(note: NoteMetadata): Pick<ChunkMetadata, "folder" | "tags" | "frontmatter" | "ctime" | "mtime"> {
+    return {
+        folder: note.folder,
+        tags: note.tags.join(" "),
+        frontmatter: JSON.stringify(note.frontmatter),
+        ctime: note.ctime,
+        mtime: note.mtime,
+    };
+}
+
+function toNoteMetadata(meta: ChunkMetadata): NoteMetadata {
+    if (typeof meta.tags !== "string") {
+        return emptyNoteMetadata(meta.filePath, meta.mtime);
+    }
+    let frontmatter: Record<string, unknown> = {};
+    try {
+        frontmatter = JSON.parse(meta.frontmatter) ?? {};
+    } catch {
+        // Keep the other fields usable
+    }
+    return {
+        folder: meta.folder,
+        tags: meta.tags ? meta.tags.split(" ") : [],
+        frontmatter,
+        ctime: meta.ctime,
+        mtime: meta.mtime,
+    };
+}
+
+/**
+ * Weighted reciprocal rank fusion: each list adds weight / (k + rank) to a chunk,
+ * so a chunk ranked well by both searches beats one ranked first by only one.
+ */
+export function fuseRankings(lists: { results: SearchResult[]; weight: number }[]): SearchResult[] {
+    const fused = new Map<string, SearchResult>();
+    for (const { results, weight } of lists) {
+        results.forEach((result, rank) => {
+            const key = chunkKey(result);
+            const entry = fused.get(key) ?? { ...result, score: 0 };
+            entry.score += weight / (RRF_K + rank + 1);
+            fused.set(key, entry);
+        });
+    }
+    return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Maximal marginal relevance: repeatedly picks the candidate with the best
+ * relevance, discounted by its similarity to chunks already picked, skipping
+ * notes that reached `maxChunksPerNote`. Candidates must be sorted by score.
+ */
+export function diversifyResults(
+    candidates: SearchResult[],
+    topK: number,
+    options: { diversity: number; maxChunksPerNote: number; vectors: Map<string, number[]> }
+): SearchResult[] {
+    const { diversity, maxChunksPerNote, vectors } = options;
+    if (candidates.length === 0) return [];
+
+    // Vector and fused scores live on different scales; compare relevance as 0 to 1
+    const top = candidates[0].score;
+    const bottom = candidates[candidates.length - 1].score;
+    const relevance = (r: SearchResult) => (top > bottom ? (r.score - bottom) / (top - bottom) : 1);
+
+    const selected: SearchResult[] = [];
+    const perNote = new Map<string, number>();
+    const remaining = candidates.slice();
+    while (selected.length < topK) {
+        let bestIndex = -1;
+        let bestValue = -Infinity;
+        remaining.forEach((candidate, i) => {
+            if (maxChunksPerNote > 0 && (perNote.get(candidate.filePath) ?? 0) >= maxChunksPerNote) return;
+            let redundancy = 0;
+            const vector = vectors.get(chunkKey(candidate));
+            for (const picked of selected) {
+                const other = vectors.get(chunkKey(picked));
+                if (vector && other) redundancy = Math.max(redundancy, cosineSimilarity(vector, other));
+            }
+            const value = (1 - diversity) * relevance(candidate) - diversity * redundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                bestIndex = i;
+            }
+        });
+        if (bestIndex < 0) break;
+
+        const [picked] = remaining.splice(bestIndex, 1);
+        selected.push(picked);
+        perNote.set(picked.filePath, (perNote.get(picked.filePath) ?? 0) + 1);
+    }
+    return selected;
+}
+
+/**
+ * Groups results by note, best note first. A note's score is its best chunk's
+ * score plus half the second's, a third of the third's and so on, so several
+ * matching chunks count for more than one without drowning out other notes.
+ */
+export function groupByNote(results: SearchResult[]): RelatedNote[] {
+    const notes = new Map<string, RelatedNote>();
+    for (const result of [...results].sort((a, b) => b.score - a.score)) {
+        let note = notes.get(result.filePath);
+        if (!note) {
+            note = { filePath: result.filePath, noteTitle: result.noteTitle, score: 0, chunks: [] };
+            notes.set(result.filePath, note);
+        }
+        note.chunks.push(result);
+        note.score += result.score / note.chunks.length;
+    }
+    return [...notes.values()].sort((a, b) => b.score - a.score);
+}
+
+function chunkKey(chunk: { filePath: string; chunkIndex: number }): string {
+    return `${chunk.filePath}#${chunk.chunkIndex}`;
+}
+
 /**
  * Splits a markdown note into chunks by headings, then by paragraphs if too long.
- * Each chunk is ~300-800 characters.
+ * Each chunk is ~300-800 characters; tiny chunks carry too little to embed and are skipped.
  */
 export function chunkNote(content: string, filePath: string): NoteChunk[] {
+    return splitNote(content, filePath)
+        .filter((chunk) => chunk.text.length >= MIN_CHUNK_LENGTH)
+        .map((chunk, chunkIndex) => ({ ...chunk, chunkIndex }));
+}
+
+// The chunks of chunkNote without dropping short ones, for note text sent to the model
+export function splitNote(content: string, filePath: string): NoteChunk[] {
     const chunks: NoteChunk[] = [];
     const lines = content.split("\n");
 
@@ -144,7 +499,7 @@ export function chunkNote(content: string, filePath: string): NoteChunk[] {
 
     const pushChunk = (text: string, heading: string) => {
         const trimmed = text.trim();
-        if (trimmed.length < 30) return; // skip tiny chunks
+        if (!trimmed) return;
         chunks.push({
             text: trimmed,
             filePath,
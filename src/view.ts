@@ -1,11 +1,23 @@
-import { ItemView, Notice, WorkspaceLeaf, TFile, debounce, setIcon } from "obsidian";
-import { VIEW_TYPE_DEEP_NOTES, IMAGE_SCAN_SYSTEM_PROMPT, AIProvider } from "./constants";
+import { ItemView, MarkdownView, Notice, WorkspaceLeaf, TFile, debounce, setIcon } from "obsidian";
+import { VIEW_TYPE_DEEP_NOTES, PROVIDERS } from "./constants";
 import { generateDeepNotesQuestions, evaluateResponses, DeepNotesItem, EvaluationResult, generateDeepNotesSubQuestions } from "./ai";
 import { getEmbedding } from "./embeddings";
-import type { SearchResult } from "./vectorStore";
+import { groupByNote, RelatedNote } from "./vectorStore";
 import { listEmbeddedImages, loadImagesByPaths, resolveExcalidrawEmbeddedImages, extractExcalidrawAnnotations, ImageInfo, ImagePayload } from "./ocr";
 import { saveSession, getSessionsForNote, deleteSession, QASession } from "./history";
 import { HIGHLIGHT_COLORS, applyHighlights, clearAllHighlights, scrollToExcerpt, findExcerptInText } from "./highlights";
+import { getApiKey, isApiKeyRequired } from "./settings";
+import { describeError, getVisionModel, getVisionProvider } from "./providers";
+import { isAbortError, throwIfAborted } from "./abort";
+import { getActivePrompt } from "./prompts";
+import { QuestionMix, ITEM_TYPE_LABELS, MAX_ITEMS_PER_TYPE, totalCount } from "./questionMix";
+import { parseSearchFilter } from "./searchFilter";
+import { FORMAT_LABELS, getItemFormat } from "./questionFormats";
+import { renderResponseInput } from "./responseInput";
+import { cardId } from "./reviewStore";
+import { formatDay } from "./analytics";
+import { createManualItem, parseQuestionBank } from "./questionImport";
+import { QuestionBankModal } from "./questionBankModal";
 import type DeepNotesPlugin from "./main";
 
 type ViewMode = "questions" | "evaluation" | "history";
@@ -16,24 +28,59 @@ interface CachedSession {
 	viewMode: ViewMode;
 }
 
+type RunKind = "generation" | "image-scan" | "evaluation";
+
+// A generation, image scan or evaluation in flight for one note
+interface ActiveRun {
+	// Note the run was started for; moves with the note when it is renamed
+	notePath: string;
+	kind: RunKind;
+	message: string;
+	controller: AbortController;
+	// Items streamed in so far; kept on the run so they land on the right note
+	items: DeepNotesItem[];
+}
+
 // Global cache to persist state across view reloads/navigation
 // Key: file path
 const sessionCache = new Map<string, CachedSession>();
 
+// Questions currently shown or cached per note, for exports
+export function getCachedItems(): Map<string, DeepNotesItem[]> {
+	const items = new Map<string, DeepNotesItem[]>();
+	for (const [notePath, session] of sessionCache) {
+		items.set(notePath, session.items);
+	}
+	return items;
+}
+
+// Moves cached questions to a renamed note's new path
+export function renameCachedSession(oldPath: string, newPath: string): void {
+	const cached = sessionCache.get(oldPath);
+	if (!cached) return;
+	sessionCache.delete(oldPath);
+	sessionCache.set(newPath, cached);
+}
+
 export class DeepNotesView extends ItemView {
 	plugin: DeepNotesPlugin;
 	private static hasShownIndexStatus = false;
 	private items: DeepNotesItem[] = [];
-	private loading = false;
-	private loadingMessage = "";
-	private evaluating = false;
+	// Runs in flight, keyed by the current path of the note they were started for
+	private runs = new Map<string, ActiveRun>();
 	private evaluationResult: EvaluationResult | null = null;
 	private viewMode: ViewMode = "questions";
 	private lastNotePath: string | null = null;
+	// Container that streamed question cards are appended to while loading
+	private streamListEl: HTMLElement | null = null;
 	// Image picker state
 	private showImagePicker = false;
 	private availableImages: ImageInfo[] = [];
 	private selectedImagePaths: Set<string> = new Set();
+	// Form for writing a question by hand
+	private showQuestionForm = false;
+	// Removes the open question-mix popover and its outside-click listener
+	private closeMixPopover: (() => void) | null = null;
 
 	constructor(leaf: WorkspaceLeaf, plugin: DeepNotesPlugin) {
 		super(leaf);
@@ -66,6 +113,10 @@ export class DeepNotesView extends ItemView {
 	}
 
 	async onClose(): Promise<void> {
+		this.closeMixPopover?.();
+		for (const run of this.runs.values()) {
+			run.controller.abort();
+		}
 		this.saveCurrentStateToCache();
 		// If we are closing, we should clear highlights from the last known path
 		if (this.lastNotePath) {
@@ -104,6 +155,7 @@ export class DeepNotesView extends ItemView {
 		}
 
 		this.lastNotePath = newPath;
+		this.showQuestionForm = false;
 
 		if (!file) {
 			this.items = [];
@@ -131,15 +183,69 @@ export class DeepNotesView extends ItemView {
 		}
 	}
 
+	/**
+	 * Follows the shown note to its new path. A run for the old path is aborted,
+	 * since it would deliver its result to a note that no longer exists.
+	 */
+	handleRename(oldPath: string, newPath: string): void {
+		// Runs keep going; their results land on the new path
+		const run = this.runs.get(oldPath);
+		if (run) {
+			this.runs.delete(oldPath);
+			run.notePath = newPath;
+			this.runs.set(newPath, run);
+		}
+		if (this.lastNotePath === oldPath) {
+			this.lastNotePath = newPath;
+			this.render();
+		}
+	}
+
+	// Appends written or imported questions to the active note's questions
+	addItems(items: DeepNotesItem[]): void {
+		if (!this.lastNotePath) {
+			new Notice("Open a note to add questions to.");
+			return;
+		}
+		this.items = [...this.items, ...items];
+		this.viewMode = "questions";
+		this.showQuestionForm = false;
+		this.saveCurrentStateToCache();
+		this.render();
+		this.applyQuestionHighlights();
+	}
+
+	openQuestionForm(): void {
+		this.showQuestionForm = true;
+		this.viewMode = "questions";
+		this.render();
+	}
+
+	openQuestionBankPicker(): void {
+		new QuestionBankModal(this.app, async (file) => {
+			const { items, errors } = parseQuestionBank(await this.app.vault.read(file), file.extension);
+			if (errors.length > 0) {
+				console.warn(`[DeepNotes] Skipped entries in ${file.path}:`, errors);
+			}
+			if (items.length === 0) {
+				new Notice(`No questions imported from ${file.basename}: ${errors[0] ?? "the file is empty."}`);
+				return;
+			}
+			this.addItems(items);
+			new Notice(`Imported ${items.length} question${items.length > 1 ? "s" : ""} from ${file.basename}${errors.length > 0 ? `, skipped ${errors.length}` : ""}.`);
+		}).open();
+	}
+
 	private applyQuestionHighlights(): void {
 		if (this.items.length === 0) {
 			clearAllHighlights(this.app, this.lastNotePath || undefined);
 			return;
 		}
 
+		// Cloze excerpts are not highlighted; the highlight would give the answer away
 		const excerpts = this.items
 			.map((item, idx) => ({
-				text: item.sourceExcerpt ?? "",
+				text: getItemFormat(item) === "cloze" ? "" : item.sourceExcerpt ?? "",
 				colorIndex: idx,
 			}))
 			.filter((e) => e.text.length > 0);
@@ -151,38 +257,50 @@ export class DeepNotesView extends ItemView {
 	}
 
 	private getActiveKey(): string {
-		const { provider, apiKey, anthropicApiKey, geminiApiKey } = this.plugin.settings;
-		return { openai: apiKey, anthropic: anthropicApiKey, gemini: geminiApiKey, ollama: "" }[provider];
+		return getApiKey(this.plugin.settings, this.plugin.settings.provider);
 	}
 
-	async triggerGeneration(): Promise<void> {
-		const { provider, model, systemPrompt, ollamaBaseUrl } = this.plugin.settings;
+	// `mix` and `contextFilter` override the question mix and related notes filter from the settings for this run only
+	async triggerGeneration(mix?: QuestionMix, contextFilter?: string): Promise<void> {
+		const { provider, model } = this.plugin.settings;
 		const activeKey = this.getActiveKey();
 
-		if (provider !== "ollama" && !activeKey) {
+		if (totalCount(mix ?? this.plugin.settings.questionMix) === 0) {
+			new Notice("The question mix is empty. Choose at least one question.");
+			return;
+		}
+
+		const { filter, errors: filterErrors } = parseSearchFilter(contextFilter ?? this.plugin.settings.contextFilter);
+		if (filterErrors.length > 0) {
+			new Notice(`Related notes filter: ${filterErrors.join(" ")}`);
+			return;
+		}
+
+		if (isApiKeyRequired(provider) && !activeKey) {
 			new Notice("Please set your API key in Deep Notes settings.");
 			return;
 		}
 
+		if (!model) {
+			new Notice("Please set a model name in Deep Notes settings.");
+			return;
+		}
+
 		const file = this.app.workspace.getActiveFile();
 		if (!file) {
 			new Notice("No active note to analyze.");
 			return;
 		}
 
-		this.loading = true;
-		this.loadingMessage = "Generating questions from note...";
-		this.evaluationResult = null;
-		this.loadingMessage = "Generating questions from note...";
-		this.evaluationResult = null;
-		this.viewMode = "questions";
-		this.render();
+		const notePath = file.path;
+		const run = this.startRun(notePath, "generation", "Generating questions from note...");
+		const { signal } = run.controller;
 
 		try {
 			const content = await this.app.vault.read(file);
 
 			// Index just this note (fast), full vault indexing is done via command or on first use
-			await this.plugin.indexer.indexSingleNote(file);
+			await this.plugin.indexQueue.indexNow(file, signal);
 			let enrichedContent = content;
 
 			// Search for related notes via vector store
@@ -190,12 +308,15 @@ export class DeepNotesView extends ItemView {
 			try {
 				const stats = await this.plugin.vectorStore.getStats();
 				if (stats.totalChunks > 0) {
-					const queryEmbedding = await getEmbedding(enrichedContent, this.plugin.settings);
-					const results = await this.plugin.vectorStore.search(
-						queryEmbedding,
-						5,
-						file.path
-					);
+					const queryEmbedding = await getEmbedding(enrichedContent, this.plugin.settings, signal);
+					const results = await this.plugin.vectorStore.search(queryEmbedding, 5, {
+						excludeFilePath: file.path,
+						queryText: enrichedContent,
+						keywordWeight: this.plugin.settings.keywordWeight,
+						filter,
+						diversity: this.plugin.settings.resultDiversity,
+						maxChunksPerNote: this.plugin.settings.maxChunksPerNote,
+					});
 					// Only include results for notes that still exist in the vault
 					const existingFiles = new Set(
 						this.app.vault.getMarkdownFiles().map((f) => f.path)
@@ -203,33 +324,41 @@ export class DeepNotesView extends ItemView {
 					const validResults = results.filter((r) => existingFiles.has(r.filePath));
 					console.log(`[DeepNotes] Related context found: ${validResults.length} items`, validResults);
 					if (validResults.length > 0) {
-						relatedContext = validResults;
+						relatedContext = groupByNote(validResults);
 					}
 				} else {
 					console.log("[DeepNotes] Vector store stats empty, skipping cross-topic search");
 				}
 			} catch (e) {
+				if (isAbortError(e)) throw e;
 				console.warn("Cross-topic search failed, generating without context:", e);
 			}
 
-			this.items = await generateDeepNotesQuestions(
+			let items = await generateDeepNotesQuestions(
 				enrichedContent,
 				this.plugin.settings,
-				systemPrompt,
-				relatedContext
+				getActivePrompt(this.plugin.settings, "generation"),
+				relatedContext,
+				undefined,
+				{
+					onItem: (item) => this.appendStreamedItem(run, item),
+					onProgress: (message) => this.updateRunMessage(run, message),
+					mix,
+					signal,
+				}
 			);
 
 			// Filter out cross-topic questions if no related notes were provided
 			// (the LLM sometimes generates them anyway)
 			if (!relatedContext) {
-				this.items = this.items.filter((item) => item.type !== "cross-topic");
+				items = items.filter((item) => item.type !== "cross-topic");
 			}
 
 			// Correct AI-generated sourceNote values to match actual vault filenames.
 			// If the AI hallucinated a note that doesn't exist, demote to knowledge-expansion.
 			if (relatedContext) {
 				const vaultFiles = this.app.vault.getMarkdownFiles();
-				for (const item of this.items) {
+				for (const item of items) {
 					if (item.type === "cross-topic" && item.sourceNote) {
 						const resolved = this.resolveSourceNote(item.sourceNote, relatedContext, vaultFiles);
 						if (resolved) {
@@ -244,19 +373,167 @@ export class DeepNotesView extends ItemView {
 			}
 
 
-			// Save to cache immediately
-			this.saveCurrentStateToCache();
-
+			this.deliverResult(run, { items, evaluationResult: null, viewMode: "questions" });
 		} catch (e) {
-			new Notice(`Deep Notes error: ${e instanceof Error ? e.message : e}`);
-			this.items = [];
+			if (isAbortError(e)) {
+				new Notice("Generation cancelled.");
+				// Keep whatever had already streamed in
+				if (run.items.length > 0) {
+					this.deliverResult(run, { items: run.items, evaluationResult: null, viewMode: "questions" });
+				}
+			} else {
+				new Notice(`Deep Notes error: ${describeError(e)}`);
+			}
 		} finally {
-			this.loading = false;
+			this.finishRun(run);
+		}
+	}
+
+	// Starts a cancellable run for a note, replacing any run already going for it
+	private startRun(notePath: string, kind: RunKind, message: string): ActiveRun {
+		this.runs.get(notePath)?.controller.abort();
+		const run: ActiveRun = { notePath, kind, message, controller: new AbortController(), items: [] };
+		this.runs.set(notePath, run);
+		if (notePath === this.lastNotePath) {
+			this.render();
+		}
+		return run;
+	}
+
+	private updateRunMessage(run: ActiveRun, message: string): void {
+		run.message = message;
+		if (run.notePath === this.lastNotePath) {
+			this.render();
+		}
+	}
+
+	private finishRun(run: ActiveRun): void {
+		if (this.runs.get(run.notePath) !== run) return;
+		this.runs.delete(run.notePath);
+		if (run.notePath === this.lastNotePath) {
 			this.render();
 			this.applyQuestionHighlights();
 		}
 	}
 
+	/**
+	 * Stores a run's outcome on the note it was started for, under the note's
+	 * current path. If the user has switched notes since, it goes to that note's
+	 * cache instead of the view.
+	 */
+	private deliverResult(run: ActiveRun, state: CachedSession): void {
+		// A newer run for the same note supersedes this one
+		if (this.runs.get(run.notePath) !== run) return;
+
+		if (run.notePath === this.lastNotePath) {
+			this.items = state.items;
+			this.evaluationResult = state.evaluationResult;
+			this.viewMode = state.viewMode;
+			this.saveCurrentStateToCache();
+		} else {
+			sessionCache.set(run.notePath, state);
+		}
+	}
+
+	// Shows a streamed item immediately without re-rendering the cards already on screen
+	private appendStreamedItem(run: ActiveRun, item: DeepNotesItem): void {
+		run.items.push(item);
+		if (run.notePath !== this.lastNotePath) return;
+
+		const idx = run.items.length - 1;
+		if (this.streamListEl && this.streamListEl.isConnected) {
+			this.renderQuestionCard(item, this.streamListEl, idx, 0, idx);
+		} else {
+			this.render();
+		}
+	}
+
+	private renderMixButton(row: HTMLElement): void {
+		const mixBtn = row.createEl("button", {
+			cls: "deep-notes-generate-btn deep-notes-mix-btn",
+			attr: { "aria-label": "Question mix for this run" },
+		});
+		setIcon(mixBtn, "sliders-horizontal");
+		mixBtn.addEventListener("click", () => {
+			if (this.closeMixPopover) {
+				this.closeMixPopover();
+			} else {
+				this.openMixPopover(row, mixBtn);
+			}
+		});
+	}
+
+	// Popover for choosing how many items of each type the next run generates
+	private openMixPopover(row: HTMLElement, anchor: HTMLElement): void {
+		const mix: QuestionMix = { ...this.plugin.settings.questionMix };
+		const popover = row.createDiv({ cls: "deep-notes-mix-popover" });
+		popover.createDiv({ cls: "deep-notes-mix-title", text: "Questions for this run" });
+
+		const totalEl = popover.createDiv({ cls: "deep-notes-mix-total" });
+		const updateTotal = () => totalEl.setText(`Total: ${totalCount(mix)}`);
+
+		for (const [type, label] of Object.entries(ITEM_TYPE_LABELS) as [keyof QuestionMix, string][]) {
+			const mixRow = popover.createDiv({ cls: "deep-notes-mix-row" });
+			mixRow.createSpan({ text: label });
+			const input = mixRow.createEl("input", {
+				type: "number",
+				attr: { min: "0", max: String(MAX_ITEMS_PER_TYPE) },
+			});
+			input.value = String(mix[type] ?? 0);
+			input.addEventListener("input", () => {
+				const n = parseInt(input.value, 10);
+				mix[type] = isNaN(n) ? 0 : Math.min(Math.max(n, 0), MAX_ITEMS_PER_TYPE);
+				updateTotal();
+			});
+		}
+		updateTotal();
+
+		popover.createDiv({ cls: "deep-notes-mix-label", text: "Related notes" });
+		const filterInput = popover.createEl("input", {
+			type: "text",
+			cls: "deep-notes-mix-filter",
+			attr: { placeholder: "Whole vault, or e.g. tag:exam-1" },
+		});
+		filterInput.value = this.plugin.settings.contextFilter;
+		const filterError = popover.createDiv({ cls: "deep-notes-mix-error" });
+		const checkFilter = (): boolean => {
+			const { errors } = parseSearchFilter(filterInput.value);
+			filterError.setText(errors.join(" "));
+			return errors.length === 0;
+		};
+		filterInput.addEventListener("input", checkFilter);
+
+		const actions = popover.createDiv({ cls: "deep-notes-btn-row" });
+		const runBtn = actions.createEl("button", { text: "Generate", cls: "deep-notes-generate-btn" });
+		runBtn.addEventListener("click", () => {
+			if (!checkFilter()) return;
+			this.closeMixPopover?.();
+			this.triggerGeneration({ ...mix }, filterInput.value);
+		});
+		const saveBtn = actions.createEl("button", { text: "Save as default", cls: "deep-notes-generate-btn" });
+		saveBtn.addEventListener("click", async () => {
+			if (!checkFilter()) return;
+			this.plugin.settings.questionMix = { ...mix };
+			this.plugin.settings.contextFilter = filterInput.value;
+			await this.plugin.saveSettings();
+			new Notice("Question mix and related notes filter saved.");
+		});
+
+		const onDocumentClick = (evt: MouseEvent) => {
+			const target = evt.target as Node;
+			if (!popover.contains(target) && !anchor.contains(target)) {
+				this.closeMixPopover?.();
+			}
+		};
+		document.addEventListener("click", onDocumentClick);
+
+		this.closeMixPopover = () => {
+			document.removeEventListener("click", onDocumentClick);
+			popover.remove();
+			this.closeMixPopover = null;
+		};
+	}
+
 	private openImagePicker(): void {
 		const file = this.app.workspace.getActiveFile();
 		if (!file) {
@@ -296,37 +573,44 @@ export class DeepNotesView extends ItemView {
 			return;
 		}
 
-		const { provider, model, ollamaBaseUrl, imageOcrProvider, geminiApiKey, imageOcrVisionModel } = this.plugin.settings;
+		const { provider, imageOcrProvider } = this.plugin.settings;
 		const activeKey = this.getActiveKey();
 
 		// Check keys based on usage
-		if (provider !== "ollama" && !activeKey) {
+		if (isApiKeyRequired(provider) && !activeKey) {
 			new Notice("Please set your main API key in Deep Notes settings.");
 			return;
 		}
 
 		// Check vision-specific key
-		if (imageOcrProvider === "gemini" && !geminiApiKey) {
-			new Notice("Gemini API Key is required for vision tasks.");
+		if (isApiKeyRequired(imageOcrProvider) && !getApiKey(this.plugin.settings, imageOcrProvider)) {
+			const label = PROVIDERS.find((p) => p.value === imageOcrProvider)?.label ?? imageOcrProvider;
+			new Notice(`${label} API Key is required for vision tasks.`);
+			return;
+		}
+
+		// Check the vision model can take images before loading anything
+		const visionProvider = getVisionProvider(this.plugin.settings);
+		const visionModelName = getVisionModel(this.plugin.settings);
+		if (!visionProvider.supportsVision(visionModelName)) {
+			new Notice(`Model "${visionModelName}" has no vision support. Choose a vision model in Deep Notes settings.`);
+			return;
+		}
+
+		const activeFile = this.app.workspace.getActiveFile();
+		if (!activeFile) {
+			new Notice("No active note.");
 			return;
 		}
 
+		const notePath = activeFile.path;
 		this.showImagePicker = false;
-		this.loading = true;
-		this.loadingMessage = `Loading ${this.selectedImagePaths.size} image(s)...`;
-		this.evaluationResult = null;
-		this.loading = true;
-		this.loadingMessage = `Loading ${this.selectedImagePaths.size} image(s)...`;
-		this.evaluationResult = null;
-		this.render();
+		const run = this.startRun(notePath, "image-scan", `Loading ${this.selectedImagePaths.size} image(s)...`);
+		const { signal } = run.controller;
 
 		try {
 			// Read the note content for context
-			const activeFile = this.app.workspace.getActiveFile();
-			let noteContent = "";
-			if (activeFile) {
-				noteContent = await this.app.vault.read(activeFile);
-			}
+			const noteContent = await this.app.vault.read(activeFile);
 
 			// Separate raster images from excalidraw
 			const selectedPaths = Array.from(this.selectedImagePaths);
@@ -348,8 +632,7 @@ export class DeepNotesView extends ItemView {
 			let excalidrawImagePayloads: ImagePayload[] = [];
 			let excalidrawAnnotations: string[] = [];
 			if (excalidrawPaths.length > 0) {
-				this.loadingMessage = `Extracting images from ${excalidrawPaths.length} drawing(s)...`;
-				this.render();
+				this.updateRunMessage(run, `Extracting images from ${excalidrawPaths.length} drawing(s)...`);
 
 				for (const ePath of excalidrawPaths) {
 					// Load the actual embedded screenshots (PNGs/JPGs pasted into the drawing)
@@ -369,61 +652,59 @@ export class DeepNotesView extends ItemView {
 
 			if (allImages.length === 0) {
 				new Notice("No images found. Excalidraw drawings without embedded screenshots have no images to scan.");
-				this.loading = false;
-				this.render();
 				return;
 			}
 
-			// Determine which model/provider to use for VISION
-			const visionProvider = imageOcrProvider === "gemini" ? "gemini" : "ollama";
-			const visionModelName = imageOcrProvider === "gemini" ? "gemini-2.0-flash" : (imageOcrVisionModel || "llava");
-			const visionApiKey = imageOcrProvider === "gemini" ? geminiApiKey : "";
-
-			this.loadingMessage = `Analyzing ${allImages.length} image(s) with ${visionModelName}...`;
-			this.render();
+			throwIfAborted(signal);
+			this.updateRunMessage(run, `Analyzing ${allImages.length} image(s) with ${visionModelName}...`);
 
 			console.log(
-				`[Deep Notes] Sending ${allImages.length} image(s) to ${visionProvider}/${visionModelName}:\n` +
+				`[Deep Notes] Sending ${allImages.length} image(s) to ${visionProvider.id}/${visionModelName}:\n` +
 				allImages.map((img, i) => `  [${i + 1}] ${img.path} (${img.mimeType}, ${img.bytes} bytes)`).join("\n")
 			);
 
-			// Build user message — images are PRIMARY, note + annotations are background context
+			// Images are PRIMARY; the image-scan template places the note and annotations as background context
 			const annotationBlock = excalidrawAnnotations.length > 0
 				? `\n\nHand-drawn annotations from the Excalidraw drawings (these are labels/notes the student wrote on top of the images):\n${excalidrawAnnotations.join("\n\n")}`
 				: "";
 
-			let userText = `FOCUS ON THE IMAGES. Generate questions about what the image(s) show — the diagrams, formulas, calculations, and visual content.${annotationBlock}
-
-For background context only (do NOT generate questions about this text directly), here is the note this image belongs to:
-
-${noteContent}`;
-
 			// Create synthetic settings for vision generation
 			const visionSettings = {
 				...this.plugin.settings,
-				provider: visionProvider as AIProvider,
+				provider: visionProvider.id,
 				model: visionModelName,
-				// Ensure the correct key is available if it's generic, though ai.ts pulls from specific fields
-				// If visionProvider is 'gemini', ai.ts looks at settings.geminiApiKey, which is preserved in spread
+				// The provider pulls its key from its specific field, which is preserved in spread
 			};
 
-			this.items = await generateDeepNotesQuestions(
-				userText,
+			const items = await generateDeepNotesQuestions(
+				noteContent,
 				visionSettings,
-				IMAGE_SCAN_SYSTEM_PROMPT,
+				getActivePrompt(this.plugin.settings, "image-scan"),
 				undefined,
-				allImages
+				allImages,
+				{
+					onItem: (item) => this.appendStreamedItem(run, item),
+					variables: { annotations: annotationBlock },
+					signal,
+				}
 			);
 
-			if (this.items.length === 0) {
+			if (items.length === 0) {
 				new Notice("No questions generated. Make sure you're using a vision model for image scanning.");
+			} else {
+				this.deliverResult(run, { items, evaluationResult: null, viewMode: "questions" });
 			}
 		} catch (e) {
-			new Notice(`Image scan error: ${e instanceof Error ? e.message : e}`);
-			this.items = [];
+			if (isAbortError(e)) {
+				new Notice("Image scan cancelled.");
+				if (run.items.length > 0) {
+					this.deliverResult(run, { items: run.items, evaluationResult: null, viewMode: "questions" });
+				}
+			} else {
+				new Notice(`Image scan error: ${describeError(e)}`);
+			}
 		} finally {
-			this.loading = false;
-			this.render();
+			this.finishRun(run);
 		}
 	}
 
@@ -433,7 +714,7 @@ ${noteContent}`;
 		const { provider, model, ollamaBaseUrl } = this.plugin.settings;
 		const activeKey = this.getActiveKey();
 
-		if (provider !== "ollama" && !activeKey) {
+		if (isApiKeyRequired(provider) && !activeKey) {
 			new Notice("Please set your API key in Deep Notes settings.");
 			return;
 		}
@@ -455,7 +736,8 @@ ${noteContent}`;
 				if (item.subItems) traverse(item.subItems);
 			}
 		};
-		traverse(this.items);
+		const items = this.items;
+		traverse(items);
 
 		const hasResponse = flatResponses.some((r) => r.length > 0);
 		if (!hasResponse) {
@@ -463,48 +745,57 @@ ${noteContent}`;
 			return;
 		}
 
-		this.evaluating = true;
-		this.render();
+		const notePath = file.path;
+		const run = this.startRun(notePath, "evaluation", "Evaluating your responses...");
+		const { signal } = run.controller;
 
 		try {
 			const noteContent = await this.app.vault.read(file);
 
 			// Index this note for future cross-topic search
-			await this.plugin.indexer.indexSingleNote(file);
+			await this.plugin.indexQueue.indexNow(file, signal);
 
-			this.evaluationResult = await evaluateResponses(
+			const evaluationResult = await evaluateResponses(
 				noteContent,
 				flatItems,
 				flatResponses,
 				this.plugin.settings,
 				model,
-				ollamaBaseUrl
+				ollamaBaseUrl,
+				signal
 			);
 
-			// Save session to history
 			// Save session to history
 			const session: QASession = {
 				id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
 				notePath: file.path,
 				noteTitle: file.basename,
 				timestamp: Date.now(),
-				items: this.items, // Stores nested items with responses
+				items, // Stores nested items with responses
 				responses: flatResponses, // Kept for compatibility, though items have responses
-				evaluation: this.evaluationResult,
+				evaluation: evaluationResult,
 			};
 			await saveSession(this.plugin, session);
 
-			this.viewMode = "evaluation";
-
-			// Save to cache
-			this.saveCurrentStateToCache();
+			// Each answered question is a spaced repetition card scheduled from its own rating
+			await this.plugin.reviewStore.recordEvaluation(
+				file.path,
+				file.basename,
+				flatItems,
+				flatResponses,
+				evaluationResult.feedback,
+				this.plugin.settings.scheduler
+			);
 
+			this.deliverResult(run, { items, evaluationResult, viewMode: "evaluation" });
 		} catch (e) {
-			new Notice(`Evaluation error: ${e instanceof Error ? e.message : e}`);
-			this.evaluationResult = null;
+			if (isAbortError(e)) {
+				new Notice("Evaluation cancelled.");
+			} else {
+				new Notice(`Evaluation error: ${describeError(e)}`);
+			}
 		} finally {
-			this.evaluating = false;
-			this.render();
+			this.finishRun(run);
 		}
 	}
 
@@ -538,7 +829,7 @@ ${noteContent}`;
 	 */
 	private resolveSourceNote(
 		aiName: string,
-		relatedContext: SearchResult[],
+		relatedContext: RelatedNote[],
 		vaultFiles: TFile[]
 	): string | null {
 		const normalise = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, "");
@@ -587,18 +878,6 @@ ${noteContent}`;
 		return null;
 	}
 
-	private getReviewDate(score: number): Date {
-		const now = new Date();
-		let daysUntilReview: number;
-		if (score >= 90) daysUntilReview = 14;
-		else if (score >= 75) daysUntilReview = 7;
-		else if (score >= 50) daysUntilReview = 3;
-		else daysUntilReview = 1;
-
-		now.setDate(now.getDate() + daysUntilReview);
-		return now;
-	}
-
 	private getDailyNoteSettings(): { folder: string; format: string } {
 		try {
 			const internalPlugins = (this.app as any).internalPlugins;
@@ -629,61 +908,8 @@ ${noteContent}`;
 			.replace("D", String(date.getDate()));
 	}
 
-	private async scheduleReview(): Promise<void> {
-		const file = this.app.workspace.getActiveFile();
-		if (!file || !this.evaluationResult) return;
-
-		const reviewDate = this.getReviewDate(this.evaluationResult.score);
-		const dateStr = reviewDate.toISOString().split("T")[0];
-		const noteName = file.basename;
-
-		// Create review note in a "reviews" subfolder next to the source note
-		const parentFolder = file.parent?.path || "";
-		const reviewsFolder = parentFolder
-			? `${parentFolder}/reviews`
-			: "reviews";
-		const reviewFilePath = `${reviewsFolder}/${dateStr} Review.md`;
-
-		const questions = this.evaluationResult.feedback
-			.map((f) => `- ${f.question}`)
-			.join("\n");
-
-		const reviewBlock = [
-			"",
-			`## Deep Notes Review: [[${noteName}]]`,
-			"",
-			`**Score:** ${this.evaluationResult.score}%`,
-			`**Summary:** ${this.evaluationResult.summary}`,
-			"",
-			"### Questions to Re-review",
-			questions,
-			"",
-		].join("\n");
-
-		const existingFile = this.app.vault.getAbstractFileByPath(reviewFilePath);
-		if (existingFile) {
-			await this.app.vault.append(existingFile as TFile, reviewBlock);
-		} else {
-			await this.ensureFolderExists(reviewsFolder);
-			await this.app.vault.create(reviewFilePath, reviewBlock.trimStart());
-		}
-
-		new Notice(`Review scheduled for ${dateStr}! Check ${reviewsFolder}/`);
-	}
-
-	private async ensureFolderExists(path: string): Promise<void> {
-		const parts = path.split("/");
-		let current = "";
-		for (const part of parts) {
-			current = current ? `${current}/${part}` : part;
-			const existing = this.app.vault.getAbstractFileByPath(current);
-			if (!existing) {
-				await this.app.vault.createFolder(current);
-			}
-		}
-	}
-
 	private render(): void {
+		this.closeMixPopover?.();
 
 		// Always render into a dedicated root div inside contentEl
 		let root = this.contentEl.querySelector<HTMLDivElement>(".deep-notes-container-root");
@@ -701,19 +927,28 @@ ${noteContent}`;
 		const header = container.createDiv({ cls: "deep-notes-header" });
 		header.createEl("h4", { text: noteName });
 
-		if (this.loading) {
+		this.streamListEl = null;
+		const run = this.lastNotePath ? this.runs.get(this.lastNotePath) : undefined;
+		if (run) {
 			container.createDiv({
 				cls: "deep-notes-loading",
-				text: this.loadingMessage || "Generating questions...",
+				text: run.message || "Generating questions...",
 			});
-			return;
-		}
 
-		if (this.evaluating) {
-			container.createDiv({
-				cls: "deep-notes-loading",
-				text: "Evaluating your responses...",
+			const cancelBtn = container.createEl("button", {
+				text: "Cancel",
+				cls: "deep-notes-generate-btn deep-notes-cancel-btn",
 			});
+			cancelBtn.addEventListener("click", () => {
+				cancelBtn.disabled = true;
+				run.controller.abort();
+			});
+
+			// Cards that have already streamed in stay usable while the rest generate
+			if (run.kind !== "evaluation") {
+				this.streamListEl = container.createDiv({ cls: "deep-notes-stream-list" });
+				this.renderQuestionList(run.items, this.streamListEl);
+			}
 			return;
 		}
 
@@ -729,6 +964,11 @@ ${noteContent}`;
 			return;
 		}
 
+		if (this.showQuestionForm) {
+			this.renderQuestionForm(container);
+			return;
+		}
+
 		if (this.items.length === 0) {
 			// Image picker view
 			if (this.showImagePicker) {
@@ -738,13 +978,15 @@ ${noteContent}`;
 
 			const btnStack = container.createDiv({ cls: "deep-notes-btn-stack" });
 
-			const genBtn = btnStack.createEl("button", {
+			const genRow = btnStack.createDiv({ cls: "deep-notes-btn-row deep-notes-gen-row" });
+			const genBtn = genRow.createEl("button", {
 				cls: "deep-notes-generate-btn deep-notes-icon-btn",
 			});
 			const genIcon = genBtn.createSpan({ cls: "deep-notes-btn-icon" });
 			setIcon(genIcon, "lightbulb");
 			genBtn.createSpan({ text: "Generate Questions" });
 			genBtn.addEventListener("click", () => this.triggerGeneration());
+			this.renderMixButton(genRow);
 
 			const scanBtn = btnStack.createEl("button", {
 				cls: "deep-notes-generate-btn deep-notes-scan-btn deep-notes-icon-btn",
@@ -754,6 +996,8 @@ ${noteContent}`;
 			scanBtn.createSpan({ text: "Scan Images" });
 			scanBtn.addEventListener("click", () => this.openImagePicker());
 
+			this.renderAuthoringButtons(btnStack);
+
 			const historyBtn = btnStack.createEl("button", {
 				cls: "deep-notes-generate-btn deep-notes-history-btn deep-notes-icon-btn",
 			});
@@ -815,6 +1059,9 @@ ${noteContent}`;
 			cls: "deep-notes-generate-btn",
 		});
 		resetBtn.addEventListener("click", () => this.triggerGeneration());
+		this.renderMixButton(bottomRow);
+
+		this.renderAuthoringButtons(container);
 
 		const histBtn = bottomRow.createEl("button", {
 			cls: "deep-notes-generate-btn deep-notes-history-btn deep-notes-icon-btn",
@@ -860,6 +1107,18 @@ ${noteContent}`;
 			text: badgeText,
 			cls: `deep-notes-badge deep-notes-badge-${item.type}`,
 		});
+		if (item.format && item.format !== "open") {
+			headerRow.createEl("span", {
+				text: FORMAT_LABELS[item.format],
+				cls: "deep-notes-badge deep-notes-badge-format",
+			});
+		}
+		if (item.origin) {
+			headerRow.createEl("span", {
+				text: item.origin === "manual" ? "Written" : "Imported",
+				cls: "deep-notes-badge deep-notes-badge-origin",
+			});
+		}
 
 		// Scroll-to-highlight button
 		if (item.sourceExcerpt) {
@@ -896,22 +1155,7 @@ ${noteContent}`;
 			});
 		}
 
-		const textarea = card.createEl("textarea", {
-			cls: "deep-notes-response",
-			placeholder: "Type your response...",
-			attr: { rows: "3" },
-		}) as HTMLTextAreaElement;
-
-		// Init value if exists
-		if (item.userResponse) {
-			textarea.value = item.userResponse;
-		}
-
-		// Save cache on input
-		textarea.addEventListener("input", debounce(() => {
-			item.userResponse = textarea.value; // Don't trim immediately to allow spaces while typing
-			this.saveCurrentStateToCache();
-		}, 200));
+		const input = renderResponseInput(item, card, () => this.saveCurrentStateToCache());
 
 		const btnRow = card.createDiv({ cls: "deep-notes-btn-row" });
 
@@ -920,7 +1164,7 @@ ${noteContent}`;
 			cls: "deep-notes-add-btn deep-notes-generate-btn",
 		});
 		addBtn.addEventListener("click", async () => {
-			const response = textarea.value.trim();
+			const response = input.value().trim();
 			if (!response) {
 				new Notice("Please type a response first.");
 				return;
@@ -966,7 +1210,7 @@ ${noteContent}`;
 			}
 
 			new Notice("Added to note!");
-			textarea.value = "";
+			input.clear();
 		});
 
 		// Go Deeper Button
@@ -977,7 +1221,7 @@ ${noteContent}`;
 		deeperBtn.style.marginLeft = "8px";
 
 		deeperBtn.addEventListener("click", async () => {
-			const userResp = textarea.value.trim();
+			const userResp = input.value().trim();
 			if (!userResp) {
 				new Notice("Please answer the question first to go deeper.");
 				return;
@@ -997,7 +1241,7 @@ ${noteContent}`;
 					userResp,
 					noteContent,
 					this.plugin.settings,
-					this.plugin.settings.systemPrompt
+					getActivePrompt(this.plugin.settings, "go-deeper")
 				);
 
 				if (subQuestions.length > 0) {
@@ -1010,7 +1254,7 @@ ${noteContent}`;
 					new Notice("Could not generate a follow-up question.");
 				}
 			} catch (e) {
-				new Notice(`Error going deeper: ${e}`);
+				new Notice(`Error going deeper: ${describeError(e)}`);
 			} finally {
 				deeperBtn.textContent = "Go Deeper";
 				deeperBtn.disabled = false;
@@ -1050,6 +1294,13 @@ ${noteContent}`;
 			this.render();
 		});
 
+		const dashboardBtn = container.createEl("button", {
+			cls: "deep-notes-generate-btn deep-notes-regenerate deep-notes-icon-btn",
+		});
+		setIcon(dashboardBtn.createSpan({ cls: "deep-notes-btn-icon" }), "bar-chart-2");
+		dashboardBtn.createSpan({ text: "Learning Dashboard" });
+		dashboardBtn.addEventListener("click", () => this.plugin.activateDashboardView());
+
 		if (sessions.length === 0) {
 			container.createDiv({
 				cls: "deep-notes-loading",
@@ -1212,6 +1463,76 @@ ${noteContent}`;
 		});
 	}
 
+	private renderAuthoringButtons(container: HTMLElement): void {
+		const row = container.createDiv({ cls: "deep-notes-btn-row" });
+
+		const writeBtn = row.createEl("button", {
+			cls: "deep-notes-generate-btn deep-notes-history-btn deep-notes-icon-btn",
+		});
+		setIcon(writeBtn.createSpan({ cls: "deep-notes-btn-icon" }), "pencil");
+		writeBtn.createSpan({ text: "Write Question" });
+		writeBtn.addEventListener("click", () => this.openQuestionForm());
+
+		const importBtn = row.createEl("button", {
+			cls: "deep-notes-generate-btn deep-notes-history-btn deep-notes-icon-btn",
+		});
+		setIcon(importBtn.createSpan({ cls: "deep-notes-btn-icon" }), "file-input");
+		importBtn.createSpan({ text: "Import" });
+		importBtn.addEventListener("click", () => this.openQuestionBankPicker());
+	}
+
+	// A question written by hand; the excerpt starts as the text selected in the note
+	private renderQuestionForm(container: HTMLElement): void {
+		const form = container.createDiv({ cls: "deep-notes-question-form" });
+		form.createEl("span", { text: "Write a question", cls: "deep-notes-picker-title" });
+
+		const field = (label: string, placeholder: string, multiline: boolean) => {
+			form.createEl("label", { text: label, cls: "deep-notes-form-label" });
+			return multiline
+				? form.createEl("textarea", { cls: "deep-notes-response", attr: { placeholder, rows: 3 } })
+				: form.createEl("input", { type: "text", cls: "deep-notes-response", attr: { placeholder } });
+		};
+		const textEl = field("Question", "What would you like to be asked?", true);
+		const answerEl = field("Sample answer", "Optional. Answers are compared with it; without one they are graded by the AI judge.", true);
+		const excerptEl = field("Source excerpt", "Optional. A quote from the note to highlight.", false);
+		const conceptsEl = field("Key points", "Optional. One per line.", true);
+		excerptEl.value = this.getEditorSelection();
+
+		const actions = form.createDiv({ cls: "deep-notes-picker-actions" });
+		const saveBtn = actions.createEl("button", {
+			text: "Add Question",
+			cls: "deep-notes-generate-btn",
+		});
+		saveBtn.addEventListener("click", () => {
+			if (!textEl.value.trim()) {
+				new Notice("Please write a question first.");
+				return;
+			}
+			this.addItems([createManualItem({
+				text: textEl.value,
+				sampleAnswer: answerEl.value,
+				sourceExcerpt: excerptEl.value,
+				keyConcepts: conceptsEl.value.split("\n"),
+			})]);
+		});
+
+		const cancelBtn = actions.createEl("button", {
+			text: "Cancel",
+			cls: "deep-notes-generate-btn",
+		});
+		cancelBtn.addEventListener("click", () => {
+			this.showQuestionForm = false;
+			this.render();
+		});
+		textEl.focus();
+	}
+
+	private getEditorSelection(): string {
+		const leaf = this.app.workspace.getLeavesOfType("markdown")
+			.find((l) => (l.view as MarkdownView).file?.path === this.lastNotePath);
+		return leaf ? (leaf.view as MarkdownView).editor.getSelection().trim() : "";
+	}
+
 	private renderFlowchartGuide(container: HTMLElement): void {
 		const guide = container.createDiv({ cls: "deep-notes-flowchart" });
 		guide.createEl("p", { text: "How it works", cls: "deep-notes-flowchart-title" });
@@ -1319,17 +1640,20 @@ ${noteContent}`;
 			});
 		}
 
+		const notePath = this.lastNotePath ?? "";
+
 		// Per-question feedback — compact with inline mini score
 		for (const fb of result.feedback) {
 			const card = container.createDiv({ cls: "deep-notes-feedback-card" });
 
-			// Header row: similarity score with color coding
+			// Header row: score with color coding
 			const fbHeader = card.createDiv({ cls: "deep-notes-feedback-header" });
 			const ratingClass = `rating-${fb.rating}`; // Used for color coding only
 
-			// Display raw similarity score instead of categories
+			// Similarity grades (and older sessions) show the raw similarity; the others show their score and explain it below
+			const explained = fb.ungraded || (fb.gradedBy !== undefined && fb.gradedBy !== "similarity");
 			fbHeader.createEl("span", {
-				text: fb.explanation, // Contains "Similarity: X%"
+				text: fb.ungraded ? "Not scored" : explained ? `${fb.score ?? 0}%` : fb.explanation, // Otherwise contains "Similarity: X%"
 				cls: `deep-notes-badge deep-notes-rating-badge ${ratingClass}`,
 			});
 
@@ -1338,7 +1662,34 @@ ${noteContent}`;
 				cls: "deep-notes-text deep-notes-feedback-question",
 			});
 
+			if (explained && fb.explanation) {
+				card.createEl("p", {
+					text: fb.explanation,
+					cls: "deep-notes-feedback-explanation",
+				});
+			}
 
+			// Key-concept checklist; free-form missing concepts only when the item has no rubric
+			if (fb.concepts && fb.concepts.length > 0) {
+				const list = card.createEl("ul", { cls: "deep-notes-concepts" });
+				for (const c of fb.concepts) {
+					const row = list.createEl("li", { cls: `deep-notes-concept ${c.covered ? "is-covered" : "is-missed"}` });
+					setIcon(row.createSpan({ cls: "deep-notes-concept-icon" }), c.covered ? "check" : "x");
+					row.createSpan({ text: c.concept });
+				}
+			} else if (fb.missingConcepts && fb.missingConcepts.length > 0) {
+				const missing = card.createDiv({ cls: "deep-notes-missing-concepts" });
+				missing.createSpan({ text: "Missing: ", cls: "deep-notes-missing-label" });
+				missing.appendText(fb.missingConcepts.join(", "));
+			}
+
+			const reviewCard = this.plugin.reviewStore.get(cardId(notePath, fb.question));
+			if (reviewCard) {
+				card.createDiv({
+					cls: "deep-notes-feedback-due",
+					text: `Next review: ${formatDay(reviewCard.due)}`,
+				});
+			}
 
 			// Suggested answer (collapsible)
 			if (fb.suggestedAnswer) {
@@ -1359,17 +1710,16 @@ ${noteContent}`;
 		// Action buttons
 		const btnStack = container.createDiv({ cls: "deep-notes-btn-stack" });
 
-		// Schedule Review button
-		const scheduleBtn = btnStack.createEl("button", {
-			text: "Schedule Review",
-			cls: "deep-notes-generate-btn deep-notes-schedule-btn",
-		});
-		const reviewDate = this.getReviewDate(result.score);
-		const dateStr = reviewDate.toISOString().split("T")[0];
-		scheduleBtn.createEl("small", {
-			text: ` (${dateStr})`,
-		});
-		scheduleBtn.addEventListener("click", () => this.scheduleReview());
+		// Earliest review among this evaluation's questions
+		const dues = result.feedback
+			.map((fb) => this.plugin.reviewStore.get(cardId(notePath, fb.question))?.due)
+			.filter((due): due is number => due !== undefined);
+		if (dues.length > 0) {
+			btnStack.createDiv({
+				cls: "deep-notes-schedule-info",
+				text: `Next review: ${formatDay(Math.min(...dues))} (${dues.length} question${dues.length > 1 ? "s" : ""} scheduled)`,
+			});
+		}
 
 		// Back button
 		const backBtn = btnStack.createEl("button", {